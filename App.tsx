@@ -6,12 +6,20 @@ import {
   DocumentSettings,
   TranslationProgress,
   TranslationConfig,
+  GlossaryEntry,
+  PseudonymizationConfig,
+  TranslationJob,
 } from './types';
-import { translateLegalText, getLanguageName } from './services/geminiService';
+import { getLanguageName } from './services/geminiService';
 import { parseDocx } from './services/docxParserService';
 import { runTranslationPipeline, DEFAULT_CONFIG } from './services/translationPipelineService';
 import { dataUrlToBlob } from './services/docxRebuilderService';
 import { getStoredUser, clearStoredUser } from './services/authService';
+import { loadGlossary, saveGlossary, getGlossaryForLanguages } from './services/glossaryService';
+import { createPseudonymizationSession, getPseudonymizationLog } from './services/pseudonymizationService';
+import { createTranslationJob, deleteTranslationJob, listTranslationJobs } from './services/translationJobService';
+import { getTranslationProvider } from './services/translationProviderService';
+import { saveToTranslationMemory } from './services/translationMemoryService';
 import TopBar from './components/TopBar';
 import LeftPanel from './components/LeftPanel';
 import CenterCanvas, { PreviewableDocument } from './components/CenterCanvas';
@@ -70,9 +78,19 @@ const App: React.FC = () => {
     translateFootnotes: true,
     preserveFormatting: true,
     translateComments: false,
-    excludedText: ''
+    trackedChanges: 'current',
+    outputFormat: 'translated',
+    eastAsianFont: '',
+    excludedText: '',
+    pseudonymize: false,
+    privateNames: '',
+    privatePatterns: '',
+    provider: 'gemini'
   });
 
+  // Firm glossary, persisted in local storage
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>(() => loadGlossary());
+
   // New state for translation pipeline
   const [translationProgress, setTranslationProgress] = useState<TranslationProgress | null>(null);
 
@@ -80,6 +98,7 @@ const App: React.FC = () => {
   const [sourceLanguage, setSourceLanguage] = useState('auto');
   const [targetLanguage, setTargetLanguage] = useState('en');
   const [translatedBlobs, setTranslatedBlobs] = useState<Map<string, Blob>>(new Map());
+  const [interruptedJobs, setInterruptedJobs] = useState<TranslationJob[]>([]);
   const abortControllerRef = useRef<AbortController | null>(null);
 
   // Check for stored user on mount
@@ -91,6 +110,17 @@ const App: React.FC = () => {
     setIsCheckingAuth(false);
   }, []);
 
+  useEffect(() => {
+    saveGlossary(glossary);
+  }, [glossary]);
+
+  // Jobs left in the database were interrupted (tab closed, connection lost) and can be resumed
+  useEffect(() => {
+    if (user) {
+      listTranslationJobs().then(setInterruptedJobs);
+    }
+  }, [user]);
+
   const handleLogout = () => {
     clearStoredUser();
     setUser(null);
@@ -148,6 +178,95 @@ const App: React.FC = () => {
     setSelectedDocId(null);
   };
 
+  // Parses and translates a DOCX job, saving progress as it goes. The job is removed once every
+  // segment is translated or the user cancels; otherwise it stays so the failed segments can be retried.
+  // Returns the output - partial if cancelled.
+  const runDocxJob = async (
+    job: TranslationJob,
+    signal: AbortSignal,
+    onProgress: (prog: TranslationProgress) => void
+  ): Promise<Blob | null> => {
+    const translatedId = `trans-${job.id}`;
+
+    setTranslationProgress({
+      phase: 'parsing',
+      currentSegment: 0,
+      totalSegments: 0,
+      currentBatch: 0,
+      totalBatches: 0,
+      reusedSegments: 0,
+      message: 'Parsing document...',
+    });
+
+    const file = job.file instanceof File ? job.file : new File([job.file], job.fileName);
+    const parsedDocx = await parseDocx(file, job.settings);
+
+    const result = await runTranslationPipeline(parsedDocx, job.config, { onProgress }, signal, job);
+
+    if ((result.success && result.failedSegments === 0) || result.cancelled || result.totalSegments === 0) {
+      await deleteTranslationJob(job.id);
+    }
+
+    if (!result.success || !result.outputDataUrl) {
+      setTranslatedDocs(prev => prev.map(td => {
+        if (td.id === translatedId) {
+          return {
+            ...td,
+            status: 'error',
+            content: result.errors[0]?.message || 'Translation failed'
+          };
+        }
+        return td;
+      }));
+      return null;
+    }
+
+    // Extract translated text from segments for preview
+    const translatedPreview = parsedDocx.segments
+      .filter(seg => seg.translatedText)
+      .map(seg => seg.translatedText)
+      .join('\n\n');
+
+    const memoryNote = result.memorySegments > 0
+      ? ` (${result.memorySegments} from translation memory, ${result.modelSegments} by the model)`
+      : '';
+    const skippedNote = result.skippedSegments > 0
+      ? `, ${result.skippedSegments} kept in the source language (signature lines, excluded parts)`
+      : '';
+    const failedNote = result.failedSegments > 0
+      ? `, ${result.failedSegments} failed and left in the source language - resume the job to retry them`
+      : '';
+    const terminologyNote = result.terminologyIssues.length > 0
+      ? `, ${result.terminologyIssues.length} glossary terms not used as approved`
+      : '';
+
+    setTranslatedDocs(prev => prev.map(td => {
+      if (td.id === translatedId) {
+        return {
+          ...td,
+          name: result.outputFileName,
+          content: result.cancelled
+            ? `Cancelled - translated ${result.successfulSegments} of ${result.totalSegments} segments, the rest is left in the source language`
+            : `Translated ${result.successfulSegments} of ${result.totalSegments} segments${memoryNote}${failedNote}${skippedNote}${terminologyNote}`,
+          previewContent: translatedPreview,
+          privacyLog: result.pseudonymizationLog,
+          memoryReview: result.memoryReview,
+          failedSegments: result.failedSegments,
+          status: result.cancelled ? 'cancelled' : 'completed'
+        };
+      }
+      return td;
+    }));
+
+    // Remove successfully translated document from left panel; a cancelled one can be translated again
+    if (!result.cancelled) {
+      setDocuments(prev => prev.filter(d => d.id !== job.id));
+      if (selectedDocId === job.id) setSelectedDocId(null);
+    }
+
+    return dataUrlToBlob(result.outputDataUrl);
+  };
+
   const handleTranslateAll = async () => {
     if (documents.length === 0) return;
 
@@ -176,6 +295,14 @@ const App: React.FC = () => {
     // Append new translations to existing ones (preserve previously translated docs)
     setTranslatedDocs(prev => [...prev, ...newTranslatedDocs]);
 
+    // Personal data to replace before any text is sent
+    const pseudonymization: PseudonymizationConfig | undefined = settings.pseudonymize
+      ? {
+          names: settings.privateNames.split('\n').map(s => s.trim()).filter(Boolean),
+          customPatterns: settings.privatePatterns.split('\n').map(s => s.trim()).filter(Boolean),
+        }
+      : undefined;
+
     const totalDocs = documents.length;
     let completed = 0;
     const newBlobs = new Map<string, Blob>();
@@ -200,86 +327,47 @@ const App: React.FC = () => {
             translateHeaders: settings.translateHeaders,
             translateFooters: settings.translateHeaders,  // Same checkbox controls both
             translateFootnotes: settings.translateFootnotes,
+            translateComments: settings.translateComments,
+            outputFormat: settings.outputFormat,
+            eastAsianFont: settings.eastAsianFont.trim() || undefined,
+            glossary: getGlossaryForLanguages(glossary, sourceLanguage, targetLanguage),
+            pseudonymization,
+            provider: settings.provider,
           };
 
-          // Parse the DOCX file
-          setTranslationProgress({
-            phase: 'parsing',
-            currentSegment: 0,
-            totalSegments: 0,
-            currentBatch: 0,
-            totalBatches: 0,
-            message: 'Parsing document...',
+          // Saved as a job so an interrupted translation can resume after a reload
+          const job = await createTranslationJob(doc.id, doc.file, settings, config);
+
+          const blob = await runDocxJob(job, signal, (prog) => {
+            setTranslationProgress(prog);
+            // Calculate overall progress including document position
+            const docProgress = (completed / totalDocs) * 100;
+            const segmentProgress = prog.totalSegments > 0
+              ? (prog.currentSegment / prog.totalSegments) * (100 / totalDocs)
+              : 0;
+            setProgress(docProgress + segmentProgress);
           });
 
-          const parsedDocx = await parseDocx(doc.file, settings);
-
-          // Run the translation pipeline
-          const result = await runTranslationPipeline(
-            parsedDocx,
-            config,
-            {
-              onProgress: (prog) => {
-                setTranslationProgress(prog);
-                // Calculate overall progress including document position
-                const docProgress = (completed / totalDocs) * 100;
-                const segmentProgress = prog.totalSegments > 0
-                  ? (prog.currentSegment / prog.totalSegments) * (100 / totalDocs)
-                  : 0;
-                setProgress(docProgress + segmentProgress);
-              },
-            },
-            signal
-          );
-
-          if (result.success && result.outputDataUrl) {
-            // Store the blob for download
-            const blob = dataUrlToBlob(result.outputDataUrl);
+          if (blob) {
             newBlobs.set(`trans-${doc.id}`, blob);
-
-            // Extract translated text from segments for preview
-            const translatedPreview = parsedDocx.segments
-              .filter(seg => seg.translatedText)
-              .map(seg => seg.translatedText)
-              .join('\n\n');
-
-            setTranslatedDocs(prev => prev.map(td => {
-              if (td.originalDocId === doc.id) {
-                return {
-                  ...td,
-                  name: result.outputFileName,
-                  content: `Translated ${result.successfulSegments} of ${result.totalSegments} segments`,
-                  previewContent: translatedPreview,
-                  status: 'completed'
-                };
-              }
-              return td;
-            }));
-
-            // Remove successfully translated document from left panel
-            setDocuments(prev => prev.filter(d => d.id !== doc.id));
-            if (selectedDocId === doc.id) setSelectedDocId(null);
-          } else {
-            setTranslatedDocs(prev => prev.map(td => {
-              if (td.originalDocId === doc.id) {
-                return {
-                  ...td,
-                  status: 'error',
-                  content: result.errors[0]?.message || 'Translation failed'
-                };
-              }
-              return td;
-            }));
           }
         } else {
           // For non-DOCX files, use the original simple translation
-          const translatedText = await translateLegalText(doc.content, getLanguageName(targetLanguage), settings.excludedText);
+          const privacy = pseudonymization ? createPseudonymizationSession(pseudonymization) : undefined;
+          const translatedText = await getTranslationProvider(settings.provider).translateText(
+            doc.content,
+            getLanguageName(targetLanguage),
+            settings.excludedText,
+            privacy,
+            signal
+          );
 
           setTranslatedDocs(prev => prev.map(td => {
             if (td.originalDocId === doc.id) {
               return {
                 ...td,
                 content: translatedText,
+                privacyLog: privacy ? getPseudonymizationLog(privacy) : undefined,
                 status: 'completed'
               };
             }
@@ -290,6 +378,7 @@ const App: React.FC = () => {
       } catch (error) {
         if (error instanceof DOMException && error.name === 'AbortError') {
           console.log('Translation cancelled');
+          await deleteTranslationJob(doc.id);
           break;
         }
 
@@ -316,10 +405,101 @@ const App: React.FC = () => {
       return merged;
     });
 
+    // Documents the cancellation stopped before they produced anything are dropped from the list
+    if (signal.aborted) {
+      setTranslatedDocs(prev => prev.filter(td => td.status !== 'processing'));
+    }
+
     setIsTranslating(false);
     setCurrentTranslatingFile(null);
+    finishTranslationProgress(signal.aborted);
+    abortControllerRef.current = null;
+    listTranslationJobs().then(setInterruptedJobs);
+  };
+
+  // A cancelled run keeps its last progress on screen, in the 'cancelled' phase, until the next
+  // run starts or the user dismisses it
+  const finishTranslationProgress = (cancelled: boolean) => {
+    setTranslationProgress(prev => {
+      if (!cancelled) return null;
+      if (prev?.phase === 'cancelled') return prev;
+      return {
+        phase: 'cancelled',
+        currentSegment: prev?.currentSegment ?? 0,
+        totalSegments: prev?.totalSegments ?? 0,
+        currentBatch: prev?.currentBatch ?? 0,
+        totalBatches: prev?.totalBatches ?? 0,
+        reusedSegments: prev?.reusedSegments ?? 0,
+        message: 'Translation cancelled',
+      };
+    });
+  };
+
+  // Continues an interrupted job; segments it already has are not sent again
+  const handleResumeJob = async (job: TranslationJob) => {
+    abortControllerRef.current = new AbortController();
+    const signal = abortControllerRef.current.signal;
+    const translatedId = `trans-${job.id}`;
+
+    setIsTranslating(true);
+    setProgress(0);
     setTranslationProgress(null);
+    setCurrentTranslatingFile(job.fileName);
+    setInterruptedJobs(prev => prev.filter(j => j.id !== job.id));
+
+    setTranslatedDocs(prev => [
+      ...prev.filter(td => td.id !== translatedId),
+      {
+        id: translatedId,
+        originalDocId: job.id,
+        name: `${job.config.targetLanguage.toUpperCase()}_${job.fileName}`,
+        originalName: job.fileName,
+        content: '',
+        languageFrom: getLanguageName(job.config.sourceLanguage),
+        languageTo: getLanguageName(job.config.targetLanguage),
+        timestamp: Date.now(),
+        status: 'processing'
+      }
+    ]);
+
+    try {
+      const blob = await runDocxJob(job, signal, (prog) => {
+        setTranslationProgress(prog);
+        setProgress(prog.totalSegments > 0 ? (prog.currentSegment / prog.totalSegments) * 100 : 0);
+      });
+
+      if (blob) {
+        setTranslatedBlobs(prev => new Map(prev).set(translatedId, blob));
+      }
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        console.log('Translation cancelled');
+        await deleteTranslationJob(job.id);
+        setTranslatedDocs(prev => prev.filter(td => td.id !== translatedId));
+      } else {
+        setTranslatedDocs(prev => prev.map(td => {
+          if (td.id === translatedId) {
+            return {
+              ...td,
+              status: 'error',
+              content: error instanceof Error ? error.message : 'Error during translation.'
+            };
+          }
+          return td;
+        }));
+      }
+    }
+
+    setIsTranslating(false);
+    setCurrentTranslatingFile(null);
+    finishTranslationProgress(signal.aborted);
     abortControllerRef.current = null;
+    listTranslationJobs().then(setInterruptedJobs);
+  };
+
+  const handleDiscardJob = async (jobId: string) => {
+    await deleteTranslationJob(jobId);
+    setInterruptedJobs(prev => prev.filter(j => j.id !== jobId));
   };
 
   const handleCancelTranslation = () => {
@@ -356,6 +536,41 @@ const App: React.FC = () => {
     }
   };
 
+  // The privacy log never leaves the browser: it is only offered as a local download
+  const handleDownloadPrivacyLog = (doc: TranslatedDocument) => {
+    if (!doc.privacyLog || doc.privacyLog.length === 0) return;
+
+    const escapeCsv = (value: string) => `"${value.replace(/"/g, '""')}"`;
+    const rows = [
+      'surrogate,category,original,occurrences',
+      ...doc.privacyLog.map(entry =>
+        [escapeCsv(entry.surrogate), entry.category, escapeCsv(entry.original), entry.occurrences].join(',')
+      )
+    ];
+    const blob = new Blob([rows.join('\n')], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = doc.name.replace(/\.docx$/i, '') + '_privacy_log.csv';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  // Approved translations are stored as reviewed, so later documents reuse them as exact matches
+  const handleApproveTranslations = async (doc: TranslatedDocument) => {
+    const review = doc.memoryReview;
+    if (!review || review.approved || review.pairs.length === 0) return;
+
+    await saveToTranslationMemory(review.pairs, review.sourceLanguage, review.targetLanguage, true);
+    setTranslatedDocs(prev => prev.map(td =>
+      td.id === doc.id && td.memoryReview
+        ? { ...td, memoryReview: { ...td.memoryReview, approved: true } }
+        : td
+    ));
+  };
+
   const handleDownloadAll = () => {
     translatedDocs.forEach(doc => {
       if (doc.status === 'completed') {
@@ -415,6 +630,10 @@ const App: React.FC = () => {
           selectedDocId={selectedDocId}
           settings={settings}
           onSettingsChange={setSettings}
+          glossary={glossary}
+          onGlossaryChange={setGlossary}
+          sourceLanguage={sourceLanguage}
+          targetLanguage={targetLanguage}
         />
 
         <CenterCanvas
@@ -431,7 +650,13 @@ const App: React.FC = () => {
           onTranslateAll={handleTranslateAll}
           onDownloadAll={handleDownloadAll}
           onDownloadSingle={handleDownloadSingle}
+          onDownloadPrivacyLog={handleDownloadPrivacyLog}
+          onApproveTranslations={handleApproveTranslations}
           onCancelTranslation={handleCancelTranslation}
+          onDismissProgress={() => setTranslationProgress(null)}
+          interruptedJobs={interruptedJobs}
+          onResumeJob={handleResumeJob}
+          onDiscardJob={handleDiscardJob}
           onSelectTranslated={handleSelectTranslated}
           selectedTranslatedDocId={selectedTranslatedDocId}
         />
@@ -10,6 +10,12 @@ const getApiKey = (): string => {
   return apiKey;
 };
 
+// Gemini rate limit errors carry the suggested wait in their details, e.g. "retryDelay": "37s"
+const getRetryAfterSeconds = (message: string): number | undefined => {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.ceil(Number(match[1])) : undefined;
+};
+
 export default async function handler(
   req: VercelRequest,
   res: VercelResponse
@@ -19,6 +25,14 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  // The client going away (a cancelled translation or a closed tab) ends generation
+  const clientGone = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      clientGone.abort();
+    }
+  });
+
   try {
     const { model, contents, config } = req.body;
 
@@ -29,24 +43,55 @@ export default async function handler(
     // Initialize Gemini AI with server-side API key
     const ai = new GoogleGenAI({ apiKey: getApiKey() });
 
-    // Make the request to Gemini
-    const response = await ai.models.generateContent({
+    // Stream the response: aborting closes the upstream connection mid-stream, which stops
+    // Gemini generating the rest, and nothing more is read
+    const stream = await ai.models.generateContentStream({
       model,
       contents,
-      config,
+      config: { ...config, abortSignal: clientGone.signal },
     });
 
+    let text = '';
+    for await (const chunk of stream) {
+      if (clientGone.signal.aborted) break;
+      text += chunk.text || '';
+    }
+
+    if (clientGone.signal.aborted) {
+      return;
+    }
+
     // Return the response
     return res.status(200).json({
-      text: response.text || '',
+      text,
       success: true,
     });
 
-  } catch (error: any) {
+  } catch (error: unknown) {
+    // Nobody is left to answer
+    if (clientGone.signal.aborted) {
+      console.log('Client disconnected, generation stopped');
+      return;
+    }
+
     console.error('Translation error:', error);
-    return res.status(500).json({
+
+    const message = error instanceof Error ? error.message : String(error);
+    const upstreamStatus = typeof error === 'object' && error !== null && 'status' in error
+      ? error.status
+      : undefined;
+
+    // Pass rate limits and upstream errors through, so the client knows it can retry
+    const status = typeof upstreamStatus === 'number' && upstreamStatus >= 400 && upstreamStatus < 600
+      ? upstreamStatus
+      : 500;
+    const retryAfter = getRetryAfterSeconds(message);
+    if (retryAfter) {
+      res.setHeader('Retry-After', String(retryAfter));
+    }
+    return res.status(status).json({
       error: 'Translation failed',
-      message: error.message || 'Unknown error',
+      message: message || 'Unknown error',
       success: false,
     });
   }
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { GlossaryEntry } from '../types';
+import { getGlossaryForLanguages } from '../services/glossaryService';
+import { getLanguageName } from '../services/geminiService';
+
+interface GlossaryEditorProps {
+  glossary: GlossaryEntry[];
+  onGlossaryChange: (glossary: GlossaryEntry[]) => void;
+  sourceLanguage: string;
+  targetLanguage: string;
+}
+
+const GlossaryEditor: React.FC<GlossaryEditorProps> = ({
+  glossary,
+  onGlossaryChange,
+  sourceLanguage,
+  targetLanguage
+}) => {
+  const [sourceTerm, setSourceTerm] = useState('');
+  const [targetTerm, setTargetTerm] = useState('');
+
+  // Only the entries for the selected language pair are shown
+  const entries = getGlossaryForLanguages(glossary, sourceLanguage, targetLanguage);
+  const pairLabel = `${sourceLanguage === 'auto' ? 'Any' : getLanguageName(sourceLanguage)} → ${getLanguageName(targetLanguage)}`;
+
+  const handleAdd = () => {
+    if (!sourceTerm.trim() || !targetTerm.trim()) return;
+    onGlossaryChange([
+      ...glossary,
+      {
+        id: Math.random().toString(36).substr(2, 9),
+        sourceLanguage,
+        targetLanguage,
+        sourceTerm: sourceTerm.trim(),
+        targetTerm: targetTerm.trim()
+      }
+    ]);
+    setSourceTerm('');
+    setTargetTerm('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleAdd();
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    onGlossaryChange(glossary.filter(entry => entry.id !== id));
+  };
+
+  const inputClassName = "min-w-0 flex-1 bg-lightGray-100 border border-lightGray-300 rounded-md px-2 py-1.5 text-xs text-navy-900 focus:border-profBlue-800 focus:ring-1 focus:ring-profBlue-800 focus:outline-none placeholder:text-slate-400 transition-all";
+
+  return (
+    <div className="pt-1">
+      <label className="block text-xs font-medium text-slate-500 mb-1.5 uppercase tracking-wide">
+        Glossary <span className="normal-case font-normal text-slate-400">({pairLabel})</span>
+      </label>
+
+      {entries.length > 0 && (
+        <ul className="mb-2 space-y-1">
+          {entries.map(entry => (
+            <li key={entry.id} className="flex items-center gap-1 text-xs text-slate-700 bg-lightGray-100 border border-lightGray-200 rounded px-2 py-1">
+              <span className="truncate flex-1" title={`${entry.sourceTerm} → ${entry.targetTerm}`}>
+                {entry.sourceTerm} <span className="text-slate-400">→</span> {entry.targetTerm}
+              </span>
+              <button
+                onClick={() => handleRemove(entry.id)}
+                className="p-0.5 rounded-full text-slate-400 hover:text-error-red hover:bg-red-50 transition-colors shrink-0"
+                title="Remove term"
+                aria-label="Remove term"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-1">
+        <input
+          type="text"
+          className={inputClassName}
+          placeholder="Source term"
+          value={sourceTerm}
+          onChange={e => setSourceTerm(e.target.value)}
+          onKeyDown={handleKeyDown}
+        />
+        <input
+          type="text"
+          className={inputClassName}
+          placeholder="Approved translation"
+          value={targetTerm}
+          onChange={e => setTargetTerm(e.target.value)}
+          onKeyDown={handleKeyDown}
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!sourceTerm.trim() || !targetTerm.trim()}
+          className="p-1.5 rounded-md text-profBlue-800 hover:bg-blue-50 disabled:text-slate-300 disabled:hover:bg-transparent transition-colors shrink-0"
+          title="Add term"
+          aria-label="Add term"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryEditor;
@@ -1,6 +1,7 @@
 import React, { useRef } from 'react';
 import { UploadCloud, FileText, X, CheckSquare, Square, FileType } from 'lucide-react';
-import { DocumentSettings, UploadedDocument } from '../types';
+import { DocumentSettings, GlossaryEntry, OutputFormat, TrackedChangesPolicy, TranslationProviderId, UploadedDocument } from '../types';
+import GlossaryEditor from './GlossaryEditor';
 
 interface LeftPanelProps {
   documents: UploadedDocument[];
@@ -10,6 +11,10 @@ interface LeftPanelProps {
   selectedDocId: string | null;
   settings: DocumentSettings;
   onSettingsChange: (settings: DocumentSettings) => void;
+  glossary: GlossaryEntry[];
+  onGlossaryChange: (glossary: GlossaryEntry[]) => void;
+  sourceLanguage: string;
+  targetLanguage: string;
 }
 
 const LeftPanel: React.FC<LeftPanelProps> = ({
@@ -19,7 +24,11 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
   onSelect,
   selectedDocId,
   settings,
-  onSettingsChange
+  onSettingsChange,
+  glossary,
+  onGlossaryChange,
+  sourceLanguage,
+  targetLanguage
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -45,13 +54,49 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
   };
 
   const toggleSetting = (key: keyof DocumentSettings) => {
-    if (key === 'excludedText') return;
+    if (
+      key === 'excludedText' ||
+      key === 'trackedChanges' ||
+      key === 'outputFormat' ||
+      key === 'eastAsianFont' ||
+      key === 'privateNames' ||
+      key === 'privatePatterns' ||
+      key === 'provider'
+    ) return;
     onSettingsChange({
       ...settings,
       [key]: !settings[key]
     });
   };
 
+  const handleTrackedChangesChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onSettingsChange({
+      ...settings,
+      trackedChanges: e.target.value as TrackedChangesPolicy
+    });
+  };
+
+  const handleOutputFormatChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onSettingsChange({
+      ...settings,
+      outputFormat: e.target.value as OutputFormat
+    });
+  };
+
+  const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onSettingsChange({
+      ...settings,
+      provider: e.target.value as TranslationProviderId
+    });
+  };
+
+  const handleEastAsianFontChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onSettingsChange({
+      ...settings,
+      eastAsianFont: e.target.value
+    });
+  };
+
   const handleExcludedTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     onSettingsChange({
       ...settings,
@@ -59,6 +104,20 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
     });
   };
 
+  const handlePrivateNamesChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    onSettingsChange({
+      ...settings,
+      privateNames: e.target.value
+    });
+  };
+
+  const handlePrivatePatternsChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    onSettingsChange({
+      ...settings,
+      privatePatterns: e.target.value
+    });
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 B';
     const k = 1024;
@@ -165,7 +224,7 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
       </div>
 
       {/* Settings Section (Fixed at bottom) */}
-      <div className="shrink-0 bg-white border-t border-lightGray-200 p-4 h-[220px]">
+      <div className="shrink-0 bg-white border-t border-lightGray-200 p-4 h-[300px] overflow-y-auto custom-scrollbar">
         <h3 className="text-sm font-semibold text-navy-900 mb-3 flex items-center gap-2">
             Translation Options
         </h3>
@@ -184,7 +243,15 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
                         ? <CheckSquare className="w-5 h-5 text-profBlue-800" /> 
                         : <Square className="w-5 h-5 text-slate-300 group-hover:text-profBlue-600 transition-colors" />}
                 </div>
-                <span className="text-sm text-slate-700 group-hover:text-navy-900 transition-colors">Translate footnotes</span>
+                <span className="text-sm text-slate-700 group-hover:text-navy-900 transition-colors">Translate footnotes & endnotes</span>
+            </label>
+            <label className="flex items-center space-x-2 cursor-pointer group select-none">
+                <div onClick={() => toggleSetting('translateComments')} className="relative">
+                    {settings.translateComments 
+                        ? <CheckSquare className="w-5 h-5 text-profBlue-800" /> 
+                        : <Square className="w-5 h-5 text-slate-300 group-hover:text-profBlue-600 transition-colors" />}
+                </div>
+                <span className="text-sm text-slate-700 group-hover:text-navy-900 transition-colors">Translate comments</span>
             </label>
             <label className="flex items-center space-x-2 cursor-pointer group select-none">
                 <div onClick={() => toggleSetting('preserveFormatting')} className="relative">
@@ -194,8 +261,83 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
                 </div>
                 <span className="text-sm text-slate-700 group-hover:text-navy-900 transition-colors">Preserve formatting</span>
             </label>
+            <label className="flex items-center space-x-2 cursor-pointer group select-none">
+                <div onClick={() => toggleSetting('pseudonymize')} className="relative">
+                    {settings.pseudonymize 
+                        ? <CheckSquare className="w-5 h-5 text-profBlue-800" /> 
+                        : <Square className="w-5 h-5 text-slate-300 group-hover:text-profBlue-600 transition-colors" />}
+                </div>
+                <span className="text-sm text-slate-700 group-hover:text-navy-900 transition-colors">Pseudonymise personal data</span>
+            </label>
+
+            {settings.pseudonymize && (
+                <div className="pl-7 space-y-2">
+                    <textarea 
+                        className="w-full h-12 bg-lightGray-100 border border-lightGray-300 rounded-md px-3 py-2 text-xs font-mono text-navy-900 focus:border-profBlue-800 focus:ring-1 focus:ring-profBlue-800 focus:outline-none resize-none placeholder:text-slate-400 transition-all"
+                        placeholder="Client names, one per line"
+                        value={settings.privateNames}
+                        onChange={handlePrivateNamesChange}
+                    />
+                    <textarea 
+                        className="w-full h-12 bg-lightGray-100 border border-lightGray-300 rounded-md px-3 py-2 text-xs font-mono text-navy-900 focus:border-profBlue-800 focus:ring-1 focus:ring-profBlue-800 focus:outline-none resize-none placeholder:text-slate-400 transition-all"
+                        placeholder="Extra patterns (regex), one per line"
+                        value={settings.privatePatterns}
+                        onChange={handlePrivatePatternsChange}
+                    />
+                    <p className="text-[11px] text-slate-400">JMBG, PIB, matični broj, IBAN, accounts, phones and emails are always included.</p>
+                </div>
+            )}
             
             <div className="mt-3 pt-2">
+                <label className="block text-xs font-medium text-slate-500 mb-1.5 uppercase tracking-wide">Tracked Changes</label>
+                <select
+                    className="w-full bg-lightGray-100 border border-lightGray-300 rounded-md px-3 py-2 text-xs text-navy-900 focus:border-profBlue-800 focus:ring-1 focus:ring-profBlue-800 focus:outline-none cursor-pointer transition-all"
+                    value={settings.trackedChanges}
+                    onChange={handleTrackedChangesChange}
+                >
+                    <option value="accept">Accept all revisions first</option>
+                    <option value="current">Translate current text only</option>
+                    <option value="separate">Keep revisions, translate separately</option>
+                </select>
+            </div>
+
+            <div className="pt-1">
+                <label className="block text-xs font-medium text-slate-500 mb-1.5 uppercase tracking-wide">Output</label>
+                <select
+                    className="w-full bg-lightGray-100 border border-lightGray-300 rounded-md px-3 py-2 text-xs text-navy-900 focus:border-profBlue-800 focus:ring-1 focus:ring-profBlue-800 focus:outline-none cursor-pointer transition-all"
+                    value={settings.outputFormat}
+                    onChange={handleOutputFormatChange}
+                >
+                    <option value="translated">Translated document</option>
+                    <option value="tracked">Tracked changes for review</option>
+                    <option value="bilingual">Bilingual two-column</option>
+                </select>
+            </div>
+
+            <div className="pt-1">
+                <label className="block text-xs font-medium text-slate-500 mb-1.5 uppercase tracking-wide">Translation Engine</label>
+                <select
+                    className="w-full bg-lightGray-100 border border-lightGray-300 rounded-md px-3 py-2 text-xs text-navy-900 focus:border-profBlue-800 focus:ring-1 focus:ring-profBlue-800 focus:outline-none cursor-pointer transition-all"
+                    value={settings.provider}
+                    onChange={handleProviderChange}
+                >
+                    <option value="gemini">Gemini</option>
+                    <option value="pseudo">Offline pseudo-translation (demo)</option>
+                </select>
+            </div>
+
+            <div className="pt-1">
+                <label className="block text-xs font-medium text-slate-500 mb-1.5 uppercase tracking-wide">East Asian Font</label>
+                <input
+                    type="text"
+                    className="w-full bg-lightGray-100 border border-lightGray-300 rounded-md px-3 py-2 text-xs text-navy-900 focus:border-profBlue-800 focus:ring-1 focus:ring-profBlue-800 focus:outline-none placeholder:text-slate-400 transition-all"
+                    placeholder="Default: SimSun / MS Mincho / Batang"
+                    value={settings.eastAsianFont}
+                    onChange={handleEastAsianFontChange}
+                />
+            </div>
+
+            <div className="pt-1">
                 <label className="block text-xs font-medium text-slate-500 mb-1.5 uppercase tracking-wide">Exclude Words</label>
                 <textarea 
                     className="w-full h-12 bg-lightGray-100 border border-lightGray-300 rounded-md px-3 py-2 text-xs font-mono text-navy-900 focus:border-profBlue-800 focus:ring-1 focus:ring-profBlue-800 focus:outline-none resize-none placeholder:text-slate-400 transition-all"
@@ -204,6 +346,13 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
                     onChange={handleExcludedTextChange}
                 />
             </div>
+
+            <GlossaryEditor
+                glossary={glossary}
+                onGlossaryChange={onGlossaryChange}
+                sourceLanguage={sourceLanguage}
+                targetLanguage={targetLanguage}
+            />
         </div>
       </div>
 
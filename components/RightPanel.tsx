@@ -1,6 +1,6 @@
 import React from 'react';
-import { UploadedDocument, TranslatedDocument, TranslationProgress } from '../types';
-import { Languages, Download, CheckCircle, Loader2, FileText, AlertTriangle, X } from 'lucide-react';
+import { UploadedDocument, TranslatedDocument, TranslationProgress, TranslationJob } from '../types';
+import { Languages, Download, CheckCircle, Loader2, FileText, AlertTriangle, X, ShieldCheck, RotateCcw, BookCheck } from 'lucide-react';
 
 interface RightPanelProps {
     documents: UploadedDocument[];
@@ -12,7 +12,13 @@ interface RightPanelProps {
     onTranslateAll: () => void;
     onDownloadAll: () => void;
     onDownloadSingle: (doc: TranslatedDocument) => void;
+    onDownloadPrivacyLog: (doc: TranslatedDocument) => void;
+    onApproveTranslations: (doc: TranslatedDocument) => void;
     onCancelTranslation: () => void;
+    onDismissProgress: () => void;
+    interruptedJobs: TranslationJob[];
+    onResumeJob: (job: TranslationJob) => void;
+    onDiscardJob: (jobId: string) => void;
     onSelectTranslated: (docId: string) => void;
     selectedTranslatedDocId: string | null;
 }
@@ -40,7 +46,13 @@ const RightPanel: React.FC<RightPanelProps> = ({
     onTranslateAll,
     onDownloadAll,
     onDownloadSingle,
+    onDownloadPrivacyLog,
+    onApproveTranslations,
     onCancelTranslation,
+    onDismissProgress,
+    interruptedJobs,
+    onResumeJob,
+    onDiscardJob,
     onSelectTranslated,
     selectedTranslatedDocId
 }) => {
@@ -133,11 +145,78 @@ const RightPanel: React.FC<RightPanelProps> = ({
                         {translationProgress && translationProgress.totalSegments > 0 && (
                             <div className="mt-1 text-xs text-slate-400 text-center">
                                 {translationProgress.currentSegment} / {translationProgress.totalSegments} segments
+                                {translationProgress.reusedSegments > 0 && ` (${translationProgress.reusedSegments} repeated, translated once)`}
                             </div>
                         )}
                     </div>
                 )}
 
+                {/* Where a cancelled run stopped, until dismissed or the next run starts */}
+                {!isTranslating && translationProgress?.phase === 'cancelled' && (
+                    <div className="bg-white border border-lightGray-200 rounded-md p-4 mb-4 shadow-sm">
+                        <div className="flex justify-between items-center mb-1">
+                            <span className="text-sm font-medium text-slate-600">
+                                {getPhaseLabel(translationProgress.phase)}
+                            </span>
+                            <button
+                                onClick={onDismissProgress}
+                                className="w-6 h-6 rounded flex items-center justify-center text-slate-400 hover:text-navy-900 hover:bg-lightGray-200 transition-colors"
+                                title="Dismiss"
+                                aria-label="Dismiss"
+                            >
+                                <X className="w-4 h-4" />
+                            </button>
+                        </div>
+                        <div className="text-xs text-slate-500">{translationProgress.message}</div>
+                        {translationProgress.totalSegments > 0 && (
+                            <div className="mt-1 text-xs text-slate-400">
+                                Stopped at {translationProgress.currentSegment} / {translationProgress.totalSegments} segments
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {/* Interrupted jobs that can be resumed */}
+                {interruptedJobs.length > 0 && (
+                    <div className="bg-white border border-lightGray-200 rounded-md p-3 mb-4 shadow-sm space-y-2">
+                        <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wide">Interrupted translations</h3>
+                        {interruptedJobs.map((job) => (
+                            <div key={job.id} className="flex items-center justify-between gap-2">
+                                <div className="overflow-hidden">
+                                    <div className="text-[13px] font-mono text-navy-900 truncate" title={job.fileName}>{job.fileName}</div>
+                                    <div className="text-xs text-slate-500">
+                                        {Object.keys(job.translations).length} of {job.segments.length} segments done
+                                    </div>
+                                </div>
+                                <div className="flex items-center gap-1 shrink-0">
+                                    <button
+                                        onClick={() => onResumeJob(job)}
+                                        disabled={isTranslating}
+                                        className={`w-8 h-8 rounded flex items-center justify-center transition-colors
+                                ${isTranslating
+                                            ? 'bg-slate-100 text-slate-300 cursor-not-allowed'
+                                            : 'bg-blue-50 hover:bg-profBlue-800 hover:text-white text-profBlue-800'}
+                            `}
+                                        title="Resume translation"
+                                        aria-label="Resume translation"
+                                    >
+                                        <RotateCcw className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={() => onDiscardJob(job.id)}
+                                        disabled={isTranslating}
+                                        className="w-8 h-8 rounded flex items-center justify-center text-slate-400 hover:text-error-red hover:bg-error-bg transition-colors"
+                                        title="Discard"
+                                        aria-label="Discard interrupted translation"
+                                    >
+                                        <X className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
                 {/* Download All Button */}
                 <button
                     onClick={onDownloadAll}
@@ -191,10 +270,21 @@ const RightPanel: React.FC<RightPanelProps> = ({
 
                             <div className="flex items-center justify-between">
                                 {doc.status === 'completed' && (
-                                    <span className="inline-flex items-center px-2 py-1 rounded-full text-[10px] font-medium bg-success-bg text-success-text border border-success-green/20">
-                                        <CheckCircle className="w-3 h-3 mr-1" />
-                                        Completed
-                                    </span>
+                                    <div className="flex items-center gap-1">
+                                        <span className="inline-flex items-center px-2 py-1 rounded-full text-[10px] font-medium bg-success-bg text-success-text border border-success-green/20">
+                                            <CheckCircle className="w-3 h-3 mr-1" />
+                                            Completed
+                                        </span>
+                                        {!!doc.failedSegments && (
+                                            <span
+                                                className="inline-flex items-center px-2 py-1 rounded-full text-[10px] font-medium bg-error-bg text-error-red border border-error-red/20"
+                                                title="Left in the source language - resume the job to retry them"
+                                            >
+                                                <AlertTriangle className="w-3 h-3 mr-1" />
+                                                {doc.failedSegments} failed
+                                            </span>
+                                        )}
+                                    </div>
                                 )}
                                 {doc.status === 'processing' && (
                                     <span className="inline-flex items-center px-2 py-1 rounded-full text-[10px] font-medium bg-blue-50 text-profBlue-800 border border-profBlue-800/20">
@@ -202,23 +292,58 @@ const RightPanel: React.FC<RightPanelProps> = ({
                                         Processing
                                     </span>
                                 )}
+                                {doc.status === 'cancelled' && (
+                                    <span className="inline-flex items-center px-2 py-1 rounded-full text-[10px] font-medium bg-slate-100 text-slate-600 border border-slate-300">
+                                        Cancelled (partial)
+                                    </span>
+                                )}
                                 {doc.status === 'error' && (
                                     <span className="inline-flex items-center px-2 py-1 rounded-full text-[10px] font-medium bg-error-bg text-error-red border border-error-red/20">
                                         Failed
                                     </span>
                                 )}
 
+                                <div className="flex items-center gap-1">
+                                {doc.memoryReview && doc.memoryReview.pairs.length > 0 && (
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); onApproveTranslations(doc); }}
+                                        disabled={doc.memoryReview.approved}
+                                        className={`w-8 h-8 rounded flex items-center justify-center transition-colors
+                                ${doc.memoryReview.approved
+                                            ? 'bg-success-bg text-success-text cursor-default'
+                                            : 'bg-blue-50 hover:bg-profBlue-800 hover:text-white text-profBlue-800'}
+                            `}
+                                        title={doc.memoryReview.approved
+                                            ? 'Approved for the translation memory'
+                                            : `Approve ${doc.memoryReview.pairs.length} translations for the translation memory`}
+                                        aria-label="Approve translations for the translation memory"
+                                    >
+                                        <BookCheck className="w-4 h-4" />
+                                    </button>
+                                )}
+                                {doc.privacyLog && doc.privacyLog.length > 0 && (
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); onDownloadPrivacyLog(doc); }}
+                                        className="w-8 h-8 rounded flex items-center justify-center transition-colors bg-blue-50 hover:bg-profBlue-800 hover:text-white text-profBlue-800"
+                                        title={`Download privacy log (${doc.privacyLog.length} items pseudonymised)`}
+                                        aria-label="Download privacy log"
+                                    >
+                                        <ShieldCheck className="w-4 h-4" />
+                                    </button>
+                                )}
                                 <button
                                     onClick={() => onDownloadSingle(doc)}
-                                    disabled={doc.status !== 'completed'}
+                                    disabled={doc.status !== 'completed' && doc.status !== 'cancelled'}
+                                    title={doc.status === 'cancelled' ? 'Download partial translation' : undefined}
                                     className={`w-8 h-8 rounded flex items-center justify-center transition-colors
-                                ${doc.status === 'completed'
+                                ${doc.status === 'completed' || doc.status === 'cancelled'
                                             ? 'bg-blue-50 hover:bg-profBlue-800 hover:text-white text-profBlue-800'
                                             : 'bg-slate-100 text-slate-300 cursor-not-allowed'}
                             `}
                                 >
                                     <Download className="w-4 h-4" />
                                 </button>
+                                </div>
                             </div>
                         </div>
                     ))}
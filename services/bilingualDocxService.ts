@@ -0,0 +1,301 @@
+import JSZip from "jszip";
+import { ParsedDocx, RebuildOptions } from "../types";
+import { applyTranslationsToPart, generateDocxDataUrl } from "./docxRebuilderService";
+import { getLanguageProfile } from "./docxLanguageService";
+import { refreshTableOfContents } from "./tableOfContentsService";
+
+// WordprocessingML namespace
+const W_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+// Word 2010 namespace (w14:paraId / w14:textId)
+const W14_NS = "http://schemas.microsoft.com/office/word/2010/wordml";
+// Drawing placement namespace (wp:docPr)
+const WP_NS = "http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing";
+
+const BODY_PATH = "word/document.xml";
+
+// Text width of a US Letter page with 1" margins, used when the section has no page size
+const DEFAULT_TEXT_WIDTH = 9360;
+
+// Elements that must stay unique in a document, so only the source column keeps them
+const SOURCE_ONLY_ELEMENTS = [
+  "bookmarkStart",
+  "bookmarkEnd",
+  "commentRangeStart",
+  "commentRangeEnd",
+  "permStart",
+  "permEnd",
+];
+
+// Runs referencing notes and comments would point at the same note twice
+const SOURCE_ONLY_RUN_CONTENT = ["commentReference", "footnoteReference", "endnoteReference"];
+
+/**
+ * Builds a bilingual DOCX: a two-column table with the source paragraph on the left and
+ * its translation on the right, one row per body paragraph or table.
+ * Rows pair up the same paragraph, so headings line up and keep their paragraph style.
+ * Each section gets its own table followed by its section break, so section-specific
+ * headers, footers and orientation survive. Headers and footers are carried across untouched.
+ */
+export async function buildBilingualDocx(
+  parsedDocx: ParsedDocx,
+  translations: Map<string, string>,
+  options: Pick<RebuildOptions, "targetLanguage" | "eastAsianFont"> = {}
+): Promise<string> {
+  const zip = parsedDocx.zipInstance as JSZip;
+  const sourceDoc = parsedDocx.xmlDocuments.get(BODY_PATH);
+  if (!sourceDoc) {
+    throw new Error("Document body (word/document.xml) not found");
+  }
+
+  // Translate a copy of the body - the original stays as the source column
+  const translatedDoc = sourceDoc.cloneNode(true) as Document;
+  const language = options.targetLanguage
+    ? getLanguageProfile(options.targetLanguage, options.eastAsianFont)
+    : null;
+  applyTranslationsToPart(parsedDocx, BODY_PATH, translatedDoc, translations, null, language);
+  refreshTableOfContents(translatedDoc);
+
+  const outputDoc = sourceDoc.cloneNode(true) as Document;
+  const sourceBody = getBody(sourceDoc);
+  const translatedBody = getBody(translatedDoc);
+  const outputBody = getBody(outputDoc);
+
+  // Drawings in the translated column need ids of their own
+  const drawingIds = { next: getMaxDrawingId(parsedDocx) + 1 };
+
+  // Body-level children line up one to one, since translation never adds or removes blocks
+  const sourceChildren = Array.from(sourceBody.children);
+  const translatedChildren = Array.from(translatedBody.children);
+  const outputChildren = Array.from(outputBody.children);
+  const content: Element[] = [];
+  let rows: Element[] = [];
+  let pendingMarkers: Element[] = [];
+
+  sourceChildren.forEach((sourceChild, index) => {
+    if (sourceChild.localName === "sectPr") return;
+
+    // Bookmarks and other markers between blocks go into the next source cell
+    if (!isBlock(sourceChild)) {
+      pendingMarkers.push(sourceChild);
+      return;
+    }
+
+    const left = [...pendingMarkers, sourceChild].map((node) =>
+      cloneForCell(node, false, drawingIds)
+    );
+    const right = [cloneForCell(translatedChildren[index], true, drawingIds)];
+    rows.push(createRow(outputDoc, left, right));
+    pendingMarkers = [];
+
+    // A section break ends the section's table; it goes after the table in a paragraph of its own
+    const breakSectPr = Array.from(outputChildren[index].getElementsByTagNameNS(W_NS, "sectPr")).pop();
+    if (breakSectPr) {
+      content.push(createTable(outputDoc, getTextWidth(breakSectPr), rows));
+      const breakParagraph = createElement(outputDoc, "p");
+      appendElement(breakParagraph, "pPr").appendChild(breakSectPr);
+      content.push(breakParagraph);
+      rows = [];
+    }
+  });
+
+  // The final section properties hold page size and header/footer references of the last section
+  const sectPr = getChildElements(outputBody, "sectPr").pop() || null;
+  if (rows.length > 0) {
+    content.push(createTable(outputDoc, getTextWidth(sectPr), rows));
+    content.push(createElement(outputDoc, "p"));
+  }
+
+  // Replace the body content with the tables, keeping the section properties last
+  while (outputBody.firstChild) {
+    outputBody.removeChild(outputBody.firstChild);
+  }
+  content.forEach((node) => outputBody.appendChild(node));
+  if (sectPr) {
+    outputBody.appendChild(sectPr);
+  }
+
+  // Every other part (headers, footers, notes) goes out as parsed
+  const serializer = new XMLSerializer();
+  for (const [xmlPath, doc] of parsedDocx.xmlDocuments.entries()) {
+    zip.file(xmlPath, serializer.serializeToString(xmlPath === BODY_PATH ? outputDoc : doc));
+  }
+
+  return generateDocxDataUrl(zip);
+}
+
+/**
+ * Returns the <w:body> element of a document part
+ */
+function getBody(doc: Document): Element {
+  const body = doc.getElementsByTagNameNS(W_NS, "body")[0];
+  if (!body) {
+    throw new Error("Document body element not found");
+  }
+  return body;
+}
+
+/**
+ * Checks whether a body child is block content (paragraph, table, content control)
+ */
+function isBlock(element: Element): boolean {
+  return ["p", "tbl", "sdt", "customXml"].includes(element.localName);
+}
+
+/**
+ * Computes the usable text width (twips) from the section's page size and margins
+ */
+function getTextWidth(sectPr: Element | null): number {
+  if (!sectPr) return DEFAULT_TEXT_WIDTH;
+
+  const pgSz = getChildElements(sectPr, "pgSz")[0];
+  const pgMar = getChildElements(sectPr, "pgMar")[0];
+  const pageWidth = Number(pgSz?.getAttribute("w:w"));
+  const left = Number(pgMar?.getAttribute("w:left") || 0);
+  const right = Number(pgMar?.getAttribute("w:right") || 0);
+
+  const width = pageWidth - left - right;
+  return Number.isFinite(width) && width > 0 ? width : DEFAULT_TEXT_WIDTH;
+}
+
+/**
+ * Creates the two-column table with a fixed 50/50 grid and light borders
+ */
+function createTable(doc: Document, textWidth: number, rows: Element[]): Element {
+  const columnWidth = Math.floor(textWidth / 2);
+
+  const table = createElement(doc, "tbl");
+  const tblPr = appendElement(table, "tblPr");
+  appendElement(tblPr, "tblW", { "w:w": String(columnWidth * 2), "w:type": "dxa" });
+  appendElement(tblPr, "tblLayout", { "w:type": "fixed" });
+
+  const borders = appendElement(tblPr, "tblBorders");
+  for (const side of ["top", "left", "bottom", "right", "insideH", "insideV"]) {
+    appendElement(borders, side, { "w:val": "single", "w:sz": "4", "w:space": "0", "w:color": "BFBFBF" });
+  }
+
+  const grid = appendElement(table, "tblGrid");
+  appendElement(grid, "gridCol", { "w:w": String(columnWidth) });
+  appendElement(grid, "gridCol", { "w:w": String(columnWidth) });
+
+  rows.forEach((row) => table.appendChild(row));
+  return table;
+}
+
+/**
+ * Creates a table row with the source content on the left and the translation on the right
+ */
+function createRow(doc: Document, left: Element[], right: Element[]): Element {
+  const row = createElement(doc, "tr");
+  for (const content of [left, right]) {
+    const cell = appendElement(row, "tc");
+    const tcPr = appendElement(cell, "tcPr");
+    appendElement(tcPr, "tcW", { "w:w": "2500", "w:type": "pct" });
+
+    content.forEach((node) => cell.appendChild(node));
+
+    // A cell has to end with a paragraph
+    if (cell.lastElementChild?.localName !== "p") {
+      appendElement(cell, "p");
+    }
+  }
+  return row;
+}
+
+/**
+ * Copies a body block into a table cell.
+ * Section breaks can't live inside a table; the translated copy also drops elements
+ * that have to stay unique in the document and gets fresh drawing ids.
+ */
+function cloneForCell(
+  element: Element,
+  isTranslation: boolean,
+  drawingIds: { next: number }
+): Element {
+  const clone = element.cloneNode(true) as Element;
+
+  removeAll(clone, "sectPr");
+
+  if (isTranslation) {
+    SOURCE_ONLY_ELEMENTS.forEach((localName) => removeAll(clone, localName));
+
+    for (const localName of SOURCE_ONLY_RUN_CONTENT) {
+      for (const reference of Array.from(clone.getElementsByTagNameNS(W_NS, localName))) {
+        const run = reference.parentNode;
+        run?.parentNode?.removeChild(run);
+      }
+    }
+
+    // Paragraph ids must be unique as well
+    const paragraphs = [clone, ...Array.from(clone.getElementsByTagNameNS(W_NS, "p"))];
+    for (const paragraph of paragraphs) {
+      paragraph.removeAttributeNS(W14_NS, "paraId");
+      paragraph.removeAttributeNS(W14_NS, "textId");
+    }
+
+    // Word reports duplicate drawing ids as a corrupt document
+    for (const docPr of Array.from(clone.getElementsByTagNameNS(WP_NS, "docPr"))) {
+      docPr.setAttribute("id", String(drawingIds.next++));
+    }
+  }
+
+  return clone;
+}
+
+/**
+ * Returns the highest drawing id (wp:docPr/@id) used in any part of the document
+ */
+function getMaxDrawingId(parsedDocx: ParsedDocx): number {
+  let max = 0;
+  for (const doc of parsedDocx.xmlDocuments.values()) {
+    for (const docPr of Array.from(doc.getElementsByTagNameNS(WP_NS, "docPr"))) {
+      max = Math.max(max, Number(docPr.getAttribute("id")) || 0);
+    }
+  }
+  return max;
+}
+
+/**
+ * Removes every descendant with the given WordprocessingML local name
+ */
+function removeAll(root: Element, localName: string): void {
+  for (const element of Array.from(root.getElementsByTagNameNS(W_NS, localName))) {
+    element.parentNode?.removeChild(element);
+  }
+}
+
+/**
+ * Returns the direct children of an element with the given WordprocessingML local name
+ */
+function getChildElements(element: Element, localName: string): Element[] {
+  return Array.from(element.children).filter(
+    (child) => child.localName === localName && child.namespaceURI === W_NS
+  );
+}
+
+/**
+ * Creates a WordprocessingML element with attributes
+ */
+function createElement(
+  doc: Document,
+  localName: string,
+  attributes: Record<string, string> = {}
+): Element {
+  const element = doc.createElementNS(W_NS, `w:${localName}`);
+  for (const [name, value] of Object.entries(attributes)) {
+    element.setAttributeNS(W_NS, name, value);
+  }
+  return element;
+}
+
+/**
+ * Creates a WordprocessingML element and appends it to the parent
+ */
+function appendElement(
+  parent: Element,
+  localName: string,
+  attributes: Record<string, string> = {}
+): Element {
+  const element = createElement(parent.ownerDocument, localName, attributes);
+  parent.appendChild(element);
+  return element;
+}
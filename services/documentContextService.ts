@@ -0,0 +1,195 @@
+import {
+  DocumentPartNotes,
+  LegalDocumentContext,
+  LegalSection,
+  LegalSectionType,
+  TextSegment,
+} from "../types";
+import { isAbortError } from "./geminiService";
+import { PseudonymizationSession } from "./pseudonymizationService";
+import { TranslationProvider } from "./translationProviderService";
+
+// Documents up to this length are analyzed in one pass, as a whole
+const FULL_TEXT_LIMIT = 24000;
+// Size of the parts a longer document is summarized in
+const PART_CHARS = 16000;
+// Characters taken from each sampled section
+const SECTION_SAMPLE_CHARS = 4000;
+// Parts summarized at the same time
+const MAX_CONCURRENT_PARTS = 3;
+
+// Sections that carry most of the document-level context, in sample order
+const SAMPLED_SECTIONS: Array<{ type: LegalSectionType; label: string }> = [
+  { type: "preamble", label: "PREAMBLE" },
+  { type: "definitions", label: "DEFINITIONS" },
+  { type: "dispute_resolution", label: "DISPUTE RESOLUTION / GOVERNING LAW" },
+  { type: "signatures", label: "SIGNATURE BLOCK" },
+];
+
+/**
+ * Builds the document-level context from the whole document. Short documents are analyzed
+ * in full. Longer ones are summarized part by part (map), then analyzed from the preamble,
+ * definitions, dispute resolution and signature sections plus the notes on every part (reduce).
+ */
+export async function buildDocumentContext(
+  provider: TranslationProvider,
+  sections: LegalSection[],
+  sourceLanguage: string,
+  title?: string,
+  privacy?: PseudonymizationSession,
+  signal?: AbortSignal
+): Promise<LegalDocumentContext> {
+  const segments = sections.flatMap((section) => section.segments);
+  const fullText = segments.map((segment) => segment.text).join("\n");
+  const titleLine = title ? `TITLE: ${title}\n` : "";
+
+  if (fullText.length <= FULL_TEXT_LIMIT) {
+    return provider.analyzeDocumentContext(titleLine + fullText, sourceLanguage, privacy, signal);
+  }
+
+  const parts = splitIntoParts(segments);
+  console.log(`📚 Summarizing ${parts.length} document parts for context analysis`);
+  const notes = await summarizeParts(provider, parts, privacy, signal);
+
+  const sample = titleLine + buildStrategicSample(sections) + formatPartNotes(notes);
+  const context = await provider.analyzeDocumentContext(sample, sourceLanguage, privacy, signal);
+  return mergePartNotes(context, notes);
+}
+
+/**
+ * Formats the document context for translation prompts
+ */
+export function formatDocumentContext(context: LegalDocumentContext): string {
+  const parties = context.parties.length > 0 ? ` Parties: ${context.parties.join("; ")}.` : "";
+  const jurisdiction = context.jurisdiction ? ` Governing law: ${context.jurisdiction}.` : "";
+  const definedTerms = context.definedTerms.length > 0
+    ? ` Defined terms: ${context.definedTerms.join(", ")}.`
+    : "";
+
+  return `${context.documentType}: ${context.summary.replace(/\.$/, "")}.${parties}${jurisdiction} Formality: ${context.formalityLevel}. Key terms: ${context.specialTerminology.join(", ")}.${definedTerms}`;
+}
+
+/**
+ * Takes the text of the preamble, definitions, dispute resolution and signature sections.
+ * The opening section stands in for the preamble when none was detected.
+ */
+function buildStrategicSample(sections: LegalSection[]): string {
+  const excerpts: string[] = [];
+
+  for (const { type, label } of SAMPLED_SECTIONS) {
+    let matching = sections.filter((section) => section.type === type);
+    if (matching.length === 0 && type === "preamble" && sections.length > 0) {
+      matching = [sections[0]];
+    }
+
+    for (const section of matching) {
+      const text = section.segments.map((segment) => segment.text).join("\n");
+      const excerpt = text.length > SECTION_SAMPLE_CHARS ? `${text.slice(0, SECTION_SAMPLE_CHARS)}…` : text;
+      excerpts.push(`[${label}: ${section.title}]\n${excerpt}`);
+    }
+  }
+
+  return excerpts.join("\n\n");
+}
+
+/**
+ * Splits the document into parts of about PART_CHARS characters at segment boundaries
+ */
+function splitIntoParts(segments: TextSegment[]): string[] {
+  const parts: string[] = [];
+  let current: string[] = [];
+  let currentChars = 0;
+
+  for (const segment of segments) {
+    if (currentChars + segment.text.length > PART_CHARS && current.length > 0) {
+      parts.push(current.join("\n"));
+      current = [];
+      currentChars = 0;
+    }
+    current.push(segment.text);
+    currentChars += segment.text.length + 1;
+  }
+
+  if (current.length > 0) {
+    parts.push(current.join("\n"));
+  }
+  return parts;
+}
+
+/**
+ * Summarizes the parts a few at a time. Parts that fail are left out of the notes;
+ * a cancelled translation stops the pass.
+ */
+async function summarizeParts(
+  provider: TranslationProvider,
+  parts: string[],
+  privacy?: PseudonymizationSession,
+  signal?: AbortSignal
+): Promise<DocumentPartNotes[]> {
+  const notes: DocumentPartNotes[] = [];
+
+  for (let i = 0; i < parts.length; i += MAX_CONCURRENT_PARTS) {
+    const group = parts.slice(i, i + MAX_CONCURRENT_PARTS);
+    const results = await Promise.all(
+      group.map((part, offset) =>
+        provider.summarizeDocumentPart(part, i + offset + 1, parts.length, privacy, signal).catch((error) => {
+          if (isAbortError(error)) throw error;
+          console.warn(`Failed to summarize document part ${i + offset + 1}:`, error);
+          return null;
+        })
+      )
+    );
+    results.forEach((result) => result && notes.push(result));
+  }
+
+  return notes;
+}
+
+/**
+ * Formats the notes on every part for the reduce step
+ */
+function formatPartNotes(notes: DocumentPartNotes[]): string {
+  if (notes.length === 0) return "";
+
+  const lines = notes.map((note, index) => {
+    const parties = note.parties.length > 0 ? ` Parties: ${note.parties.join("; ")}.` : "";
+    const jurisdiction = note.jurisdiction ? ` Governing law: ${note.jurisdiction}.` : "";
+    const terms = note.definedTerms.length > 0 ? ` Defined terms: ${note.definedTerms.join(", ")}.` : "";
+    return `Part ${index + 1}: ${note.summary}${parties}${jurisdiction}${terms}`;
+  });
+
+  return `\n\nNOTES ON EVERY PART OF THE DOCUMENT:\n${lines.join("\n")}`;
+}
+
+/**
+ * Adds parties, defined terms and the jurisdiction found in the part notes that the
+ * final analysis left out
+ */
+function mergePartNotes(
+  context: LegalDocumentContext,
+  notes: DocumentPartNotes[]
+): LegalDocumentContext {
+  return {
+    ...context,
+    parties: mergeUnique(context.parties, notes.flatMap((note) => note.parties)),
+    definedTerms: mergeUnique(context.definedTerms, notes.flatMap((note) => note.definedTerms)),
+    jurisdiction: context.jurisdiction || notes.find((note) => note.jurisdiction)?.jurisdiction,
+  };
+}
+
+/**
+ * Appends the items not yet in the list, compared case-insensitively
+ */
+function mergeUnique(items: string[], additions: string[]): string[] {
+  const seen = new Set(items.map((item) => item.trim().toLowerCase()));
+  const merged = [...items];
+
+  for (const addition of additions) {
+    const key = addition.trim().toLowerCase();
+    if (key && !seen.has(key)) {
+      seen.add(key);
+      merged.push(addition.trim());
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,212 @@
+// WordprocessingML namespace
+const W_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+// Dublin Core namespace (dc:language in docProps/core.xml)
+const DC_NS = "http://purl.org/dc/elements/1.1/";
+
+// Language tags written to w:lang, by target language code
+const LANGUAGE_TAGS: Record<string, string> = {
+  en: "en-US",
+  es: "es-ES",
+  sr: "sr-Latn-RS",
+  fr: "fr-FR",
+  de: "de-DE",
+  it: "it-IT",
+  pt: "pt-PT",
+  nl: "nl-NL",
+  pl: "pl-PL",
+  ru: "ru-RU",
+  zh: "zh-CN",
+  ja: "ja-JP",
+  ko: "ko-KR",
+  ar: "ar-SA",
+};
+
+// Fonts used for East Asian text unless another one is configured
+const DEFAULT_EAST_ASIAN_FONTS: Record<string, string> = {
+  zh: "SimSun",
+  ja: "MS Mincho",
+  ko: "Batang",
+};
+
+const RTL_LANGUAGES = ["ar"];
+
+// Child order of w:rPr, w:pPr and w:sectPr in the schema - Word rejects elements out of sequence
+const RPR_ORDER = [
+  "rStyle", "rFonts", "b", "bCs", "i", "iCs", "caps", "smallCaps", "strike", "dstrike", "outline",
+  "shadow", "emboss", "imprint", "noProof", "snapToGrid", "vanish", "webHidden", "color", "spacing",
+  "w", "kern", "position", "sz", "szCs", "highlight", "u", "effect", "bdr", "shd", "fitText",
+  "vertAlign", "rtl", "cs", "em", "lang", "eastAsianLayout", "specVanish", "oMath", "rPrChange",
+];
+const PPR_ORDER = [
+  "pStyle", "keepNext", "keepLines", "pageBreakBefore", "framePr", "widowControl", "numPr",
+  "suppressLineNumbers", "pBdr", "shd", "tabs", "suppressAutoHyphens", "kinsoku", "wordWrap",
+  "overflowPunct", "topLinePunct", "autoSpaceDE", "autoSpaceDN", "bidi", "adjustRightInd",
+  "snapToGrid", "spacing", "ind", "contextualSpacing", "mirrorIndents", "suppressOverlap", "jc",
+  "textDirection", "textAlignment", "textboxTightWrap", "outlineLvl", "divId", "cnfStyle", "rPr",
+  "sectPr", "pPrChange",
+];
+const SECTPR_ORDER = [
+  "headerReference", "footerReference", "footnotePr", "endnotePr", "type", "pgSz", "pgMar",
+  "paperSrc", "pgBorders", "lnNumType", "pgNumType", "cols", "formProt", "vAlign", "noEndnote",
+  "titlePg", "textDirection", "bidi", "rtlGutter", "docGrid", "printerSettings", "sectPrChange",
+];
+
+/**
+ * Typography settings for the target language
+ */
+export interface LanguageProfile {
+  tag: string; // BCP 47 tag, e.g. "es-ES"
+  script: "latin" | "eastAsia" | "bidi"; // Which w:lang / w:rFonts slot the language uses
+  eastAsianFont?: string;
+}
+
+/**
+ * Builds the typography profile for a target language code.
+ * Returns null for codes without a known language tag, so the document is left as it is.
+ */
+export function getLanguageProfile(code: string, eastAsianFont?: string): LanguageProfile | null {
+  const tag = LANGUAGE_TAGS[code];
+  if (!tag) return null;
+
+  if (RTL_LANGUAGES.includes(code)) {
+    return { tag, script: "bidi" };
+  }
+  if (DEFAULT_EAST_ASIAN_FONTS[code]) {
+    return { tag, script: "eastAsia", eastAsianFont: eastAsianFont || DEFAULT_EAST_ASIAN_FONTS[code] };
+  }
+  return { tag, script: "latin" };
+}
+
+/**
+ * Marks a translated paragraph as target-language text: language (and font) on every run
+ * and on the paragraph mark, plus right-to-left direction for RTL languages
+ */
+export function applyParagraphLanguage(paragraph: Element, profile: LanguageProfile): void {
+  applyRunsLanguage(paragraph, profile);
+
+  const pPr = getChild(paragraph, "pPr");
+  if (profile.script === "bidi") {
+    ensureChild(pPr || ensureFirstChild(paragraph, "pPr"), "bidi", PPR_ORDER);
+  }
+
+  // The paragraph mark only gets a language if it already has run properties
+  const markRPr = pPr && getChild(pPr, "rPr");
+  if (markRPr) {
+    applyRunPropertiesLanguage(markRPr, profile);
+  }
+}
+
+/**
+ * Sets the language of every run below an element (a paragraph or a revision wrapper).
+ * Deleted runs keep the source language, and text box paragraphs are handled on their own.
+ */
+export function applyRunsLanguage(container: Element, profile: LanguageProfile): void {
+  for (const run of Array.from(container.getElementsByTagNameNS(W_NS, "r"))) {
+    if (isExcludedRun(run, container)) continue;
+    applyRunPropertiesLanguage(ensureFirstChild(run, "rPr"), profile);
+  }
+}
+
+/**
+ * Applies the target language to the document-wide defaults: w:lang (and East Asian font)
+ * in the styles.xml docDefaults, w:bidi on every section for RTL languages and dc:language
+ * in the core properties
+ */
+export function applyDocumentLanguage(
+  profile: LanguageProfile,
+  parts: { body?: Document; styles?: Document | null; coreProperties?: Document }
+): void {
+  const { body, styles, coreProperties } = parts;
+
+  const stylesRoot = styles?.documentElement;
+  if (stylesRoot) {
+    const docDefaults = ensureFirstChild(stylesRoot, "docDefaults");
+    const rPrDefault = ensureFirstChild(docDefaults, "rPrDefault");
+    const rPr = ensureFirstChild(rPrDefault, "rPr");
+    applyRunPropertiesLanguage(rPr, profile, false);
+  }
+
+  if (body && profile.script === "bidi") {
+    for (const sectPr of Array.from(body.getElementsByTagNameNS(W_NS, "sectPr"))) {
+      ensureChild(sectPr, "bidi", SECTPR_ORDER);
+    }
+  }
+
+  const language = coreProperties?.getElementsByTagNameNS(DC_NS, "language")[0];
+  if (language) {
+    language.textContent = profile.tag;
+  }
+}
+
+/**
+ * Writes the language tag (and East Asian font or RTL flag) into run properties
+ */
+function applyRunPropertiesLanguage(rPr: Element, profile: LanguageProfile, markRtl: boolean = true): void {
+  const lang = ensureChild(rPr, "lang", RPR_ORDER);
+
+  if (profile.script === "latin") {
+    lang.setAttribute("w:val", profile.tag);
+  } else if (profile.script === "eastAsia") {
+    lang.setAttribute("w:eastAsia", profile.tag);
+
+    // A theme font would win over the explicit one
+    const rFonts = ensureChild(rPr, "rFonts", RPR_ORDER);
+    rFonts.removeAttribute("w:eastAsiaTheme");
+    rFonts.setAttribute("w:eastAsia", profile.eastAsianFont || "");
+    rFonts.setAttribute("w:hint", "eastAsia");
+  } else {
+    lang.setAttribute("w:bidi", profile.tag);
+    if (markRtl) {
+      ensureChild(rPr, "rtl", RPR_ORDER);
+    }
+  }
+}
+
+/**
+ * Checks whether a run is deleted or belongs to a nested (text box) paragraph
+ */
+function isExcludedRun(run: Element, container: Element): boolean {
+  let node = run.parentElement;
+  while (node && node !== container) {
+    if (node.namespaceURI === W_NS && ["del", "moveFrom", "p"].includes(node.localName)) {
+      return true;
+    }
+    node = node.parentElement;
+  }
+  return false;
+}
+
+/**
+ * Returns the first direct child with the given WordprocessingML local name
+ */
+function getChild(element: Element, localName: string): Element | null {
+  return Array.from(element.children).find(
+    (child) => child.localName === localName && child.namespaceURI === W_NS
+  ) || null;
+}
+
+/**
+ * Returns a child element, creating it at its schema position if missing
+ */
+function ensureChild(parent: Element, localName: string, order: string[]): Element {
+  const existing = getChild(parent, localName);
+  if (existing) return existing;
+
+  const element = parent.ownerDocument.createElementNS(W_NS, `w:${localName}`);
+  const position = order.indexOf(localName);
+  const next = Array.from(parent.children).find((child) => order.indexOf(child.localName) > position);
+  parent.insertBefore(element, next || null);
+  return element;
+}
+
+/**
+ * Returns a child element, creating it as the first child if missing (w:pPr, w:rPr, w:docDefaults)
+ */
+function ensureFirstChild(parent: Element, localName: string): Element {
+  const existing = getChild(parent, localName);
+  if (existing) return existing;
+
+  const element = parent.ownerDocument.createElementNS(W_NS, `w:${localName}`);
+  parent.insertBefore(element, parent.firstChild);
+  return element;
+}
@@ -8,10 +8,54 @@ import {
   DocumentSettings,
   LegalSection,
   LegalSectionType,
+  TrackedChangesPolicy,
 } from '../types';
 
 // WordprocessingML namespace
 const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+// XML namespace (xml:space)
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+// Markup compatibility namespace (mc:AlternateContent)
+const MC_NS = 'http://schemas.openxmlformats.org/markup-compatibility/2006';
+// VML namespace (legacy text boxes and shapes)
+const VML_NS = 'urn:schemas-microsoft-com:vml';
+
+// Revision wrappers holding removed and added text
+const DELETION_WRAPPERS = ['del', 'moveFrom'];
+const INSERTION_WRAPPERS = ['ins', 'moveTo'];
+
+// Revision bookkeeping elements that only record what changed
+const REVISION_RECORDS = [
+  'rPrChange', 'pPrChange', 'sectPrChange', 'tblPrChange', 'tblGridChange', 'trPrChange',
+  'tcPrChange', 'numberingChange', 'cellIns', 'cellDel', 'cellMerge',
+  'moveFromRangeStart', 'moveFromRangeEnd', 'moveToRangeStart', 'moveToRangeEnd',
+];
+
+// Inline run markup sent to the model, e.g. "<r1>Tenant</r1><r2> shall pay</r2>"
+const RUN_TAG_PATTERN = /<r(\d+)>([\s\S]*?)<\/r\1>/g;
+
+// Placeholder for protected content (fields, bookmarks), e.g. "see Clause <f1/>"
+const FIELD_PLACEHOLDER_PATTERN = /<f(\d+)\/>/g;
+
+// Document properties that are translated, by part. Properties holding a vector
+// (app.xml TitlesOfParts) are translated entry by entry.
+const PROPERTY_PARTS: Array<{ path: string; properties: string[] }> = [
+  { path: 'docProps/core.xml', properties: ['title', 'subject', 'keywords', 'description'] },
+  { path: 'docProps/app.xml', properties: ['TitlesOfParts'] },
+];
+
+// Run containers that are looked through when collecting fields and bookmarks
+const INLINE_CONTAINERS = ['ins', 'moveTo', 'smartTag', 'customXml', 'sdt', 'sdtContent', 'dir', 'bdo'];
+
+// Property children of inline wrappers - a wrapper holding nothing else is empty
+const WRAPPER_PROPERTIES = ['rPr', 'smartTagPr', 'customXmlPr', 'sdtPr', 'sdtEndPr'];
+
+// A piece of paragraph content in document order: a span of text runs sharing formatting and
+// hyperlink, or protected content (a field, bookmark or separately translated revision) that the
+// model sees as a <fN/> placeholder
+type ParagraphPiece =
+  | { kind: 'text'; runs: Element[]; hyperlink: Element | null }
+  | { kind: 'protected'; nodes: Element[] };
 
 /**
  * Parses a DOCX file and extracts all text segments with their XML context
@@ -38,35 +82,62 @@ export async function parseDocx(
     if (settings.translateHeaders && /^word\/header\d*\.xml$/.test(filename)) {
       filesToParse.push({ path: filename, location: 'header' });
     }
-    if (settings.translateFootnotes && /^word\/footer\d*\.xml$/.test(filename)) {
+    if (settings.translateHeaders && /^word\/footer\d*\.xml$/.test(filename)) {
       filesToParse.push({ path: filename, location: 'footer' });
     }
   }
 
+  // Footnotes and endnotes live in their own parts
+  if (settings.translateFootnotes) {
+    filesToParse.push(
+      { path: 'word/footnotes.xml', location: 'footnote' },
+      { path: 'word/endnotes.xml', location: 'endnote' }
+    );
+  }
+
+  // Review comments
+  if (settings.translateComments) {
+    filesToParse.push({ path: 'word/comments.xml', location: 'comment' });
+  }
+
   // Parse each XML file
   for (const { path, location } of filesToParse) {
-    const zipFile = zip.file(path);
-    if (!zipFile) continue;
-
-    const xmlString = await zipFile.async('string');
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(xmlString, 'application/xml');
+    const doc = await loadXmlDocument(zip, path);
+    if (!doc) continue;
 
-    // Check for parsing errors
-    const parseError = doc.querySelector('parsererror');
-    if (parseError) {
-      console.warn(`XML parsing error in ${path}:`, parseError.textContent);
-      continue;
+    if (settings.trackedChanges === 'accept') {
+      acceptAllRevisions(doc);
     }
 
     xmlDocuments.set(path, doc);
 
     // Extract paragraphs from this XML file
-    extractParagraphSegments(doc, path, location, segments);
+    extractParagraphSegments(doc, path, location, settings, segments);
+  }
+
+  // Document properties (title, subject, keywords) go after the document content
+  for (const { path, properties } of PROPERTY_PARTS) {
+    const doc = await loadXmlDocument(zip, path);
+    if (!doc) continue;
+
+    xmlDocuments.set(path, doc);
+    extractPropertySegments(doc, path, properties, segments);
+  }
+
+  // Comment threads (replies, resolved state) point at comment paragraphs by w14:paraId,
+  // keep them around so the rebuilder can check they still resolve
+  if (xmlDocuments.has('word/comments.xml')) {
+    const commentsExtended = await loadXmlDocument(zip, 'word/commentsExtended.xml');
+    if (commentsExtended) {
+      xmlDocuments.set('word/commentsExtended.xml', commentsExtended);
+    }
   }
 
-  // Detect legal document sections
-  const sections = detectLegalSections(segments);
+  // Detect legal document sections - properties come last, so section indices still match.
+  // Headings only start sections in the body; every other part is a section of its own
+  const sections = detectLegalSections(
+    segments.filter((segment) => segment.context.location !== 'properties')
+  );
 
   // Calculate metadata
   const metadata = calculateMetadata(segments);
@@ -78,9 +149,32 @@ export async function parseDocx(
     segments,
     sections,
     metadata,
+    trackedChanges: settings.trackedChanges,
+    preserveFormatting: settings.preserveFormatting,
   };
 }
 
+/**
+ * Loads and parses an XML part from the DOCX archive
+ */
+export async function loadXmlDocument(zip: JSZip, path: string): Promise<Document | null> {
+  const zipFile = zip.file(path);
+  if (!zipFile) return null;
+
+  const xmlString = await zipFile.async('string');
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(xmlString, 'application/xml');
+
+  // Check for parsing errors
+  const parseError = doc.querySelector('parsererror');
+  if (parseError) {
+    console.warn(`XML parsing error in ${path}:`, parseError.textContent);
+    return null;
+  }
+
+  return doc;
+}
+
 /**
  * Extracts text segments from paragraphs in an XML document
  */
@@ -88,69 +182,748 @@ function extractParagraphSegments(
   doc: Document,
   xmlPath: string,
   location: SegmentContext['location'],
+  settings: DocumentSettings,
   segments: TextSegment[]
 ): void {
-  // Find all <w:p> elements (paragraphs)
+  // Find all <w:p> elements (paragraphs), including those nested in text boxes and content controls
   const paragraphs = doc.getElementsByTagNameNS(W_NS, 'p');
 
   for (let i = 0; i < paragraphs.length; i++) {
     const para = paragraphs[i];
 
+    // Legacy VML copies in mc:Fallback repeat the mc:Choice content - the rebuilder keeps them in sync
+    if (isInFallback(para)) {
+      continue;
+    }
+
     // Extract all text from <w:t> elements within this paragraph
-    const text = extractParagraphText(para);
+    const text = extractParagraphText(para, settings.trackedChanges);
+
+    // Pending revisions become segments of their own when translated separately
+    const revisions = settings.trackedChanges === 'separate' ? getRevisionElements(para) : [];
 
     // Skip empty paragraphs
-    if (text.trim().length === 0) {
+    if (text.trim().length === 0 && revisions.length === 0) {
       continue;
     }
 
-    // Detect if paragraph is inside a table cell
-    let actualLocation = location;
-    let node = para.parentElement;
-    while (node) {
-      if (node.localName === 'tc') {
-        actualLocation = 'table-cell';
-        break;
-      }
-      node = node.parentElement;
+    // Skip separator and continuation notes - Word renders these itself
+    const note = findNoteAncestor(para);
+    if (note && isSpecialNote(note)) {
+      continue;
     }
 
+    // Detect if paragraph is inside a text box, shape, content control or table cell
+    const actualLocation = detectContainerLocation(para) || location;
+
     // Extract style info
     const styleInfo = extractStyleInfo(para);
 
-    segments.push({
-      id: `docx-${xmlPath.replace(/[\/\.]/g, '-')}-para-${i}`,
-      text,
-      xmlPath,
-      paragraphIndex: i,
-      context: {
-        location: actualLocation,
-        styleInfo,
-      },
-      status: 'pending',
+    const id = `docx-${xmlPath.replace(/[\/\.]/g, '-')}-para-${i}`;
+    const context: SegmentContext = {
+      location: actualLocation,
+      styleInfo,
+      noteId: note?.getAttribute('w:id') || undefined,
+    };
+
+    if (text.trim().length > 0) {
+      segments.push({
+        id,
+        text,
+        taggedText: buildTaggedText(para, settings.trackedChanges, settings.preserveFormatting),
+        xmlPath,
+        locator: getElementLocator(para),
+        context,
+        status: 'pending',
+      });
+    }
+
+    revisions.forEach((revision, revisionIndex) => {
+      const revisionText = extractRevisionText(revision);
+      if (revisionText.trim().length === 0) return;
+
+      segments.push({
+        id: `${id}-rev-${revisionIndex}`,
+        text: revisionText,
+        xmlPath,
+        locator: getElementLocator(para),
+        revisionIndex,
+        context: {
+          ...context,
+          revision: isRevisionOfType(revision, DELETION_WRAPPERS) ? 'deleted' : 'inserted',
+        },
+        status: 'pending',
+      });
+    });
+  }
+}
+
+/**
+ * Extracts translatable document properties as segments
+ */
+function extractPropertySegments(
+  doc: Document,
+  xmlPath: string,
+  properties: string[],
+  segments: TextSegment[]
+): void {
+  const root = doc.documentElement;
+  if (!root) return;
+
+  for (const property of Array.from(root.children)) {
+    if (!properties.includes(property.localName)) continue;
+
+    // Vector properties keep their values in <vt:lpstr> leaves
+    const values = property.children.length > 0
+      ? Array.from(property.getElementsByTagName('*')).filter((el) => el.children.length === 0)
+      : [property];
+
+    values.forEach((value, k) => {
+      const text = value.textContent || '';
+      if (text.trim().length === 0) return;
+
+      segments.push({
+        id: `docx-${xmlPath.replace(/[\/\.]/g, '-')}-${property.localName}-${k}`,
+        text,
+        xmlPath,
+        locator: getElementLocator(value),
+        context: {
+          location: 'properties',
+          styleInfo: property.localName,
+        },
+        status: 'pending',
+      });
     });
   }
 }
 
+/**
+ * Finds the innermost container that gives a paragraph its own location:
+ * text box, shape, content control (block-level w:sdt) or table cell
+ */
+function detectContainerLocation(paragraph: Element): SegmentContext['location'] | null {
+  let node = paragraph.parentElement;
+  while (node) {
+    if (node.localName === 'txbxContent') {
+      return isTextBox(node) ? 'text-box' : 'shape';
+    }
+    if (node.localName === 'sdtContent') {
+      return 'content-control';
+    }
+    if (node.localName === 'tc') {
+      return 'table-cell';
+    }
+    node = node.parentElement;
+  }
+  return null;
+}
+
+/**
+ * Tells a text box from any other shape carrying text.
+ * DrawingML marks text boxes with <wps:cNvSpPr txBox="1">, VML with the text box shape type (#_x0000_t202).
+ */
+function isTextBox(txbxContent: Element): boolean {
+  let node = txbxContent.parentElement;
+  while (node) {
+    if (node.localName === 'wsp') {
+      const cNvSpPr = Array.from(node.children).find((child) => child.localName === 'cNvSpPr');
+      const txBox = cNvSpPr?.getAttribute('txBox');
+      return txBox === '1' || txBox === 'true';
+    }
+    if (node.namespaceURI === VML_NS && node.localName !== 'textbox') {
+      return node.localName === 'shape' && node.getAttribute('type') === '#_x0000_t202';
+    }
+    node = node.parentElement;
+  }
+  return true;
+}
+
+/**
+ * Checks whether an element belongs to the mc:Fallback branch of an mc:AlternateContent
+ */
+function isInFallback(element: Element, root?: Element): boolean {
+  let node = element.parentElement;
+  while (node && node !== root) {
+    if (node.namespaceURI === MC_NS && node.localName === 'Fallback') {
+      return true;
+    }
+    node = node.parentElement;
+  }
+  return false;
+}
+
+/**
+ * Builds an XPath-like locator for an element, e.g. "/w:document[1]/w:body[1]/w:p[3]".
+ * Each step counts same-named siblings, so it stays valid as long as the elements on the path
+ * and their earlier siblings are unchanged - unlike a flat paragraph index, it does not depend
+ * on paragraphs elsewhere in the part (text boxes, content controls).
+ */
+export function getElementLocator(element: Element): string {
+  const steps: string[] = [];
+  let node: Element | null = element;
+
+  while (node) {
+    const name = node.nodeName;
+    let index = 1;
+    let sibling = node.previousElementSibling;
+    while (sibling) {
+      if (sibling.nodeName === name) index++;
+      sibling = sibling.previousElementSibling;
+    }
+    steps.unshift(`${name}[${index}]`);
+    node = node.parentElement;
+  }
+
+  return '/' + steps.join('/');
+}
+
+/**
+ * Resolves a locator built by getElementLocator back to its element
+ */
+export function resolveElementLocator(doc: Document, locator: string): Element | null {
+  let current: Document | Element = doc;
+
+  for (const step of locator.split('/').filter(Boolean)) {
+    const match = step.match(/^(.+)\[(\d+)\]$/);
+    if (!match) return null;
+
+    const [, name, position] = match;
+    const candidates: Element[] = Array.from(current.children).filter(
+      (child) => child.nodeName === name
+    );
+    const next: Element | undefined = candidates[Number(position) - 1];
+    if (!next) return null;
+    current = next;
+  }
+
+  return current === doc ? null : (current as Element);
+}
+
+/**
+ * If a paragraph sits in the mc:Choice branch of an mc:AlternateContent, returns the matching
+ * paragraph of the mc:Fallback branch (same position), so both renderings can be updated.
+ */
+export function findFallbackParagraph(paragraph: Element): Element | null {
+  let choice: Element | null = paragraph.parentElement;
+  while (choice && !(choice.namespaceURI === MC_NS && choice.localName === 'Choice')) {
+    choice = choice.parentElement;
+  }
+  const alternateContent = choice?.parentElement;
+  if (!choice || !alternateContent) return null;
+
+  const fallback = Array.from(alternateContent.children).find(
+    (child) => child.namespaceURI === MC_NS && child.localName === 'Fallback'
+  );
+  if (!fallback) return null;
+
+  const choiceParagraphs = Array.from(choice.getElementsByTagNameNS(W_NS, 'p'));
+  const fallbackParagraphs = Array.from(fallback.getElementsByTagNameNS(W_NS, 'p'));
+  if (choiceParagraphs.length !== fallbackParagraphs.length) return null;
+
+  return fallbackParagraphs[choiceParagraphs.indexOf(paragraph)] || null;
+}
+
+/**
+ * Finds the enclosing <w:footnote>, <w:endnote> or <w:comment> element of a paragraph
+ */
+function findNoteAncestor(paragraph: Element): Element | null {
+  let node = paragraph.parentElement;
+  while (node) {
+    if (node.localName === 'footnote' || node.localName === 'endnote' || node.localName === 'comment') {
+      return node;
+    }
+    node = node.parentElement;
+  }
+  return null;
+}
+
+/**
+ * Checks whether a note is a separator/continuation note rather than real content
+ */
+function isSpecialNote(note: Element): boolean {
+  const type = note.getAttribute('w:type');
+  return !!type && type !== 'normal';
+}
+
 /**
  * Extracts all text from <w:t> elements within a paragraph
  */
-function extractParagraphText(paragraph: Element): string {
-  const textElements = paragraph.getElementsByTagNameNS(W_NS, 't');
-  let fullText = '';
+export function extractParagraphText(
+  paragraph: Element,
+  policy: TrackedChangesPolicy = 'current'
+): string {
+  return getTextElements(paragraph, policy)
+    .map((textEl) => textEl.textContent || '')
+    .join('');
+}
+
+/**
+ * Returns the <w:t> elements that make up a paragraph's current text.
+ * Deleted text never counts; inserted text is left out when revisions are translated separately.
+ */
+function getTextElements(
+  paragraph: Element,
+  policy: TrackedChangesPolicy = 'current'
+): Element[] {
+  // Text of paragraphs nested in text boxes belongs to those paragraphs
+  const excluded = policy === 'separate'
+    ? ['p', ...DELETION_WRAPPERS, ...INSERTION_WRAPPERS]
+    : ['p', ...DELETION_WRAPPERS];
+
+  // Field results (page numbers, cross-references) are generated by Word, not translated
+  const protectedNodes = new Set(getProtectedGroups(paragraph, policy).flat());
+
+  return Array.from(paragraph.getElementsByTagNameNS(W_NS, 't')).filter(
+    (textEl) =>
+      !hasAncestor(textEl, paragraph, excluded) &&
+      !isInFallback(textEl, paragraph) &&
+      !isProtected(textEl, paragraph, protectedNodes)
+  );
+}
+
+/**
+ * Collects the content of a paragraph that must survive translation unchanged, in document order:
+ * simple fields, complex fields from their begin to their end fldChar (code and cached result),
+ * hyperlinks that contain fields (e.g. TOC entries) and bookmarks other than Word's _GoBack.
+ * With the 'separate' policy, revision wrappers are protected too, so they keep their place in the sentence.
+ * A field that started or continues in a neighbouring paragraph protects the part of it in this one.
+ */
+function getProtectedGroups(
+  paragraph: Element,
+  policy: TrackedChangesPolicy = 'current'
+): Element[][] {
+  const groups: Element[][] = [];
+  let depth = countUnmatchedFieldEnds(paragraph);
+  let current: Element[] | null = depth > 0 ? [] : null;
+  if (current) groups.push(current);
+
+  const visit = (container: Element) => {
+    for (const child of Array.from(container.children)) {
+      if (child.namespaceURI !== W_NS) continue;
+      const name = child.localName;
+
+      // Revisions translated separately move with the translation like a field
+      if (policy === 'separate' && [...DELETION_WRAPPERS, ...INSERTION_WRAPPERS].includes(name)) {
+        if (child.getElementsByTagNameNS(W_NS, 'r').length > 0) {
+          if (current) current.push(child);
+          else groups.push([child]);
+        }
+        continue;
+      }
+
+      // Deleted content is never shown, so it takes no part in the text
+      if (DELETION_WRAPPERS.includes(name)) continue;
+
+      if (INLINE_CONTAINERS.includes(name)) {
+        visit(child);
+        continue;
+      }
+
+      if (name === 'r') {
+        for (const fldChar of getChildElements(child, 'fldChar')) {
+          const type = fldChar.getAttribute('w:fldCharType');
+          if (type === 'begin') {
+            if (depth === 0) {
+              current = [];
+              groups.push(current);
+            }
+            depth++;
+          } else if (type === 'end' && depth > 0) {
+            depth--;
+          }
+        }
+        if (current) current.push(child);
+        if (depth === 0) current = null;
+        continue;
+      }
+
+      if (current) {
+        current.push(child);
+      } else if (name === 'fldSimple') {
+        groups.push([child]);
+      } else if (name === 'hyperlink' && containsField(child)) {
+        groups.push([child]);
+      } else if ((name === 'bookmarkStart' || name === 'bookmarkEnd') && !isGoBackBookmark(child, paragraph)) {
+        groups.push([child]);
+      }
+    }
+  };
+
+  visit(paragraph);
+  return groups.filter((group) => group.length > 0);
+}
+
+/**
+ * Counts w:fldChar end markers that close a field begun in an earlier paragraph
+ */
+function countUnmatchedFieldEnds(paragraph: Element): number {
+  let depth = 0;
+  let lowest = 0;
+  for (const fldChar of Array.from(paragraph.getElementsByTagNameNS(W_NS, 'fldChar'))) {
+    if (hasAncestor(fldChar, paragraph, ['p', ...DELETION_WRAPPERS])) continue;
+    const type = fldChar.getAttribute('w:fldCharType');
+    if (type === 'begin') depth++;
+    if (type === 'end') depth--;
+    lowest = Math.min(lowest, depth);
+  }
+  return -lowest;
+}
+
+/**
+ * Checks whether an element holds a simple or complex field
+ */
+function containsField(element: Element): boolean {
+  return ['fldSimple', 'fldChar', 'instrText'].some(
+    (localName) => element.getElementsByTagNameNS(W_NS, localName).length > 0
+  );
+}
+
+/**
+ * Word's _GoBack bookmark only marks the last edit position and can be left wherever it ends up
+ */
+function isGoBackBookmark(bookmark: Element, paragraph: Element): boolean {
+  const id = bookmark.getAttribute('w:id');
+  return Array.from(paragraph.getElementsByTagNameNS(W_NS, 'bookmarkStart')).some(
+    (start) => start.getAttribute('w:id') === id && start.getAttribute('w:name') === '_GoBack'
+  );
+}
+
+/**
+ * Checks whether an element is, or sits inside, one of the protected nodes of a paragraph
+ */
+function isProtected(element: Element, paragraph: Element, protectedNodes: Set<Element>): boolean {
+  let node: Element | null = element;
+  while (node && node !== paragraph) {
+    if (protectedNodes.has(node)) return true;
+    node = node.parentElement;
+  }
+  return false;
+}
+
+/**
+ * Checks whether an element sits inside one of the named WordprocessingML elements below the root
+ */
+function hasAncestor(element: Element, root: Element, localNames: string[]): boolean {
+  let node = element.parentElement;
+  while (node && node !== root) {
+    if (node.namespaceURI === W_NS && localNames.includes(node.localName)) {
+      return true;
+    }
+    node = node.parentElement;
+  }
+  return false;
+}
+
+/**
+ * Returns the outermost run-level revision wrappers (w:ins, w:del, w:moveTo, w:moveFrom) of a paragraph,
+ * in document order. Paragraph-mark revision markers hold no runs and are not included.
+ */
+export function getRevisionElements(paragraph: Element): Element[] {
+  const wrappers = [...DELETION_WRAPPERS, ...INSERTION_WRAPPERS];
+  const all = paragraph.getElementsByTagNameNS(W_NS, '*');
+  const revisions: Element[] = [];
 
-  for (let i = 0; i < textElements.length; i++) {
-    fullText += textElements[i].textContent || '';
+  for (let i = 0; i < all.length; i++) {
+    const element = all[i];
+    if (!wrappers.includes(element.localName)) continue;
+    if (element.getElementsByTagNameNS(W_NS, 'r').length === 0) continue;
+    if (hasAncestor(element, paragraph, ['p', ...wrappers])) continue;
+    if (isInFallback(element, paragraph)) continue;
+    revisions.push(element);
   }
 
-  return fullText;
+  return revisions;
+}
+
+/**
+ * Checks whether a revision wrapper is one of the given kinds
+ */
+function isRevisionOfType(revision: Element, localNames: string[]): boolean {
+  return localNames.includes(revision.localName);
+}
+
+/**
+ * Returns the text elements of a revision: <w:delText> for deletions, <w:t> for insertions
+ */
+function getRevisionTextElements(revision: Element): Element[] {
+  if (isRevisionOfType(revision, DELETION_WRAPPERS)) {
+    return Array.from(revision.getElementsByTagNameNS(W_NS, 'delText')).filter(
+      (textEl) => !hasAncestor(textEl, revision, ['p']) && !isInFallback(textEl, revision)
+    );
+  }
+  return Array.from(revision.getElementsByTagNameNS(W_NS, 't')).filter(
+    (textEl) => !hasAncestor(textEl, revision, ['p', ...DELETION_WRAPPERS]) && !isInFallback(textEl, revision)
+  );
+}
+
+/**
+ * Extracts the text of a single revision
+ */
+export function extractRevisionText(revision: Element): string {
+  return getRevisionTextElements(revision)
+    .map((textEl) => textEl.textContent || '')
+    .join('');
+}
+
+/**
+ * Accepts every tracked change in a part: deletions are dropped, insertions kept without their
+ * wrapper, and the change records removed, leaving only the current text.
+ */
+export function acceptAllRevisions(doc: Document): void {
+  const byName = (localName: string) =>
+    Array.from(doc.getElementsByTagNameNS(W_NS, localName));
+
+  // Deleted table rows go away with their content
+  for (const marker of byName('del')) {
+    if (marker.parentElement?.localName === 'trPr') {
+      const row = marker.parentElement.parentElement;
+      row?.parentNode?.removeChild(row);
+    }
+  }
+
+  // A deleted paragraph mark merges the paragraph into the next one
+  for (const marker of byName('del')) {
+    const rPr = marker.parentElement;
+    const pPr = rPr?.parentElement;
+    const paragraph = pPr?.parentElement;
+    if (!paragraph || rPr?.localName !== 'rPr' || pPr?.localName !== 'pPr') continue;
+
+    const next = paragraph.nextElementSibling;
+    if (next && next.localName === 'p' && next.namespaceURI === W_NS) {
+      const nextPPr = getChildElements(next, 'pPr')[0];
+      const insertBefore = nextPPr ? nextPPr.nextSibling : next.firstChild;
+      for (const child of Array.from(paragraph.childNodes)) {
+        if (child !== pPr) {
+          next.insertBefore(child, insertBefore);
+        }
+      }
+      paragraph.parentNode?.removeChild(paragraph);
+    }
+  }
+
+  // Removed content
+  for (const localName of DELETION_WRAPPERS) {
+    for (const element of byName(localName)) {
+      element.parentNode?.removeChild(element);
+    }
+  }
+
+  // Inserted content stays, without the wrapper
+  for (const localName of INSERTION_WRAPPERS) {
+    for (const element of byName(localName)) {
+      const parent = element.parentNode;
+      if (!parent) continue;
+      while (element.firstChild) {
+        parent.insertBefore(element.firstChild, element);
+      }
+      parent.removeChild(element);
+    }
+  }
+
+  for (const localName of REVISION_RECORDS) {
+    for (const element of byName(localName)) {
+      element.parentNode?.removeChild(element);
+    }
+  }
+}
+
+/**
+ * Builds the tagged version of a paragraph's text: spans as <rN>…</rN>, protected content as <fN/>.
+ * Spans split on formatting only when formatting is preserved; hyperlinks always get their own span.
+ * Returns undefined when the paragraph is a single span without protected content.
+ */
+function buildTaggedText(
+  paragraph: Element,
+  policy: TrackedChangesPolicy = 'current',
+  splitFormatting: boolean = true
+): string | undefined {
+  const pieces = getParagraphPieces(paragraph, policy, splitFormatting);
+  const spanCount = pieces.filter((piece) => piece.kind === 'text').length;
+  const hasProtected = pieces.some((piece) => piece.kind === 'protected');
+  if (spanCount <= 1 && !hasProtected) return undefined;
+
+  let spanNumber = 0;
+  let fieldNumber = 0;
+  return pieces
+    .map((piece) => {
+      if (piece.kind === 'protected') {
+        return `<f${++fieldNumber}/>`;
+      }
+      const text = piece.runs.map(getRunText).join('');
+      if (spanCount === 1) return text;
+      spanNumber++;
+      return `<r${spanNumber}>${text}</r${spanNumber}>`;
+    })
+    .join('');
+}
+
+/**
+ * Splits a paragraph into text spans and protected content, in document order.
+ * Consecutive text runs form one span while they share a hyperlink (and formatting, if split on it).
+ * Protected content before the first or after the last text run stays where it is and is left out.
+ */
+function getParagraphPieces(
+  paragraph: Element,
+  policy: TrackedChangesPolicy = 'current',
+  splitFormatting: boolean = true
+): ParagraphPiece[] {
+  const runs = getTextRuns(paragraph, policy);
+  if (runs.length === 0) return [];
+
+  const firstRun = runs[0];
+  const lastRun = runs[runs.length - 1];
+  const groups = getProtectedGroups(paragraph, policy).filter((group) => {
+    // Fields keep their placeholder anywhere, bookmarks only between text
+    if (group.some((node) => !node.localName.startsWith('bookmark'))) return true;
+    return isBefore(firstRun, group[0]) && isBefore(group[0], lastRun);
+  });
+
+  const items: Array<Element | Element[]> = [...runs, ...groups];
+  items.sort((a, b) => (isBefore(Array.isArray(a) ? a[0] : a, Array.isArray(b) ? b[0] : b) ? -1 : 1));
+
+  const pieces: ParagraphPiece[] = [];
+  let lastKey: string | null = null;
+
+  for (const item of items) {
+    if (Array.isArray(item)) {
+      pieces.push({ kind: 'protected', nodes: item });
+      lastKey = null;
+      continue;
+    }
+
+    const hyperlink = findHyperlink(item, paragraph);
+    const previous = pieces[pieces.length - 1];
+    const key = splitFormatting ? getRunFormattingKey(item) : '';
+    if (previous?.kind === 'text' && previous.hyperlink === hyperlink && key === lastKey) {
+      previous.runs.push(item);
+    } else {
+      pieces.push({ kind: 'text', runs: [item], hyperlink });
+      lastKey = key;
+    }
+  }
+
+  return pieces;
+}
+
+/**
+ * Checks whether node a comes before node b in the document
+ */
+function isBefore(a: Node, b: Node): boolean {
+  return (a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING) !== 0;
+}
+
+/**
+ * Returns the w:hyperlink a run belongs to, if any
+ */
+function findHyperlink(run: Element, paragraph: Element): Element | null {
+  let node = run.parentElement;
+  while (node && node !== paragraph) {
+    if (node.namespaceURI === W_NS && node.localName === 'hyperlink') return node;
+    node = node.parentElement;
+  }
+  return null;
+}
+
+/**
+ * Returns the runs holding a paragraph's current text, in document order
+ */
+export function getTextRuns(
+  paragraph: Element,
+  policy: TrackedChangesPolicy = 'current'
+): Element[] {
+  const runs = getTextElements(paragraph, policy).map((textEl) => textEl.parentNode as Element | null);
+  return Array.from(new Set(runs)).filter(
+    (run): run is Element => !!run && run.localName === 'r'
+  );
+}
+
+/**
+ * Serializes a run's formatting so runs that look the same compare equal
+ */
+function getRunFormattingKey(run: Element): string {
+  const rPr = getChildElements(run, 'rPr')[0];
+  if (!rPr) return '';
+
+  // Spell-check language and proofing marks split runs without changing their look
+  const clone = rPr.cloneNode(true) as Element;
+  for (const child of Array.from(clone.children)) {
+    if (child.localName === 'lang' || child.localName === 'noProof') {
+      clone.removeChild(child);
+    }
+  }
+
+  return new XMLSerializer().serializeToString(clone);
+}
+
+/**
+ * Concatenates the <w:t> text of a single run
+ */
+function getRunText(run: Element): string {
+  return getChildElements(run, 't')
+    .map((t) => t.textContent || '')
+    .join('');
+}
+
+/**
+ * Returns the direct children of an element with the given WordprocessingML local name
+ */
+function getChildElements(element: Element, localName: string): Element[] {
+  return Array.from(element.children).filter(
+    (child) => child.localName === localName && child.namespaceURI === W_NS
+  );
+}
+
+/**
+ * Removes inline run tags and field placeholders, leaving plain text
+ */
+export function stripRunTags(text: string): string {
+  return text.replace(/<\/?r\d+>/g, '').replace(FIELD_PLACEHOLDER_PATTERN, '');
+}
+
+/**
+ * Checks whether a translation still carries inline run tags or field placeholders
+ */
+export function hasRunTags(text: string): boolean {
+  return /<r\d+>|<f\d+\/>/.test(text);
+}
+
+/**
+ * Checks that a translation kept the markup of its source: every <rN>, </rN> and <fN/> exactly
+ * once and no others. Throws otherwise, so the segment is re-requested instead of written with
+ * lost fields or formatting.
+ */
+export function verifyRunTags(sourceText: string, translation: string): void {
+  const countTags = (text: string) => {
+    const counts = new Map<string, number>();
+    for (const match of text.matchAll(/<\/?r\d+>|<f\d+\/>/g)) {
+      counts.set(match[0], (counts.get(match[0]) ?? 0) + 1);
+    }
+    return counts;
+  };
+  const expected = countTags(sourceText);
+  const found = countTags(translation);
+
+  for (const tag of found.keys()) {
+    if (!expected.has(tag)) {
+      throw new Error(`Unknown tag ${tag} in translation`);
+    }
+  }
+  for (const tag of expected.keys()) {
+    const count = found.get(tag) ?? 0;
+    if (count === 0) {
+      throw new Error(`Tag ${tag} is missing from translation`);
+    }
+    if (count > 1) {
+      throw new Error(`Tag ${tag} appears ${count} times in translation`);
+    }
+  }
 }
 
 /**
  * Extracts style information from a paragraph
  */
 function extractStyleInfo(paragraph: Element): string | undefined {
-  const pPr = paragraph.getElementsByTagNameNS(W_NS, 'pPr')[0];
+  const pPr = getChildElements(paragraph, 'pPr')[0];
   if (!pPr) return undefined;
 
   const pStyle = pPr.getElementsByTagNameNS(W_NS, 'pStyle')[0];
@@ -193,15 +966,26 @@ function calculateMetadata(segments: TextSegment[]): DocumentMetadata {
     estimatedBatches++;
   }
 
+  // The title property wins; otherwise the first paragraph in the Title style
+  const titleSegment =
+    segments.find((seg) => seg.context.location === 'properties' && seg.context.styleInfo === 'title') ||
+    segments.find((seg) => seg.context.location === 'body' && seg.context.styleInfo === 'Title');
+
   return {
     totalParagraphs,
     totalCharacters,
     estimatedBatches,
+    documentTitle: titleSegment?.text.trim(),
   };
 }
 
+// Main document part - the only one whose headings start legal sections
+const BODY_PART = 'word/document.xml';
+
 /**
- * Detects legal document sections based on headings and content patterns
+ * Detects legal document sections based on headings and content patterns in the body.
+ * Headers, footers, notes and comments become one section per part, so they never join
+ * the last body section (e.g. the signature block).
  */
 function detectLegalSections(segments: TextSegment[]): LegalSection[] {
   const sections: LegalSection[] = [];
@@ -214,6 +998,27 @@ function detectLegalSections(segments: TextSegment[]): LegalSection[] {
 
   for (let i = 0; i < segments.length; i++) {
     const segment = segments[i];
+
+    if (segment.xmlPath !== BODY_PART) {
+      if (currentSection && currentSection.segments[0].xmlPath === segment.xmlPath) {
+        currentSection.segments.push(segment);
+        continue;
+      }
+      if (currentSection && currentSection.segments.length > 0) {
+        currentSection.endIndex = i - 1;
+        sections.push(currentSection);
+      }
+      currentSection = {
+        id: `section-${sectionId++}`,
+        title: getPartTitle(segment.xmlPath),
+        type: 'unknown',
+        segments: [segment],
+        startIndex: i,
+        endIndex: i,
+      };
+      continue;
+    }
+
     const isHeading = segment.context.styleInfo && headingStyles.some(s =>
       segment.context.styleInfo?.toLowerCase().includes(s.toLowerCase())
     );
@@ -221,9 +1026,11 @@ function detectLegalSections(segments: TextSegment[]): LegalSection[] {
     const isAllCaps = segment.text.trim().length > 3 &&
       segment.text.trim() === segment.text.trim().toUpperCase() &&
       /[A-Z]/.test(segment.text);
+    // "IN WITNESS WHEREOF..." opens the signature block even without a heading
+    const isTestimonium = /^in witness whereof/i.test(segment.text.trim());
 
     // Detect new section start
-    if (isHeading || isNumberedSection || isAllCaps) {
+    if (isHeading || isNumberedSection || isAllCaps || isTestimonium) {
       // Save previous section
       if (currentSection && currentSection.segments.length > 0) {
         currentSection.endIndex = i - 1;
@@ -265,12 +1072,28 @@ function detectLegalSections(segments: TextSegment[]): LegalSection[] {
   return sections;
 }
 
+/**
+ * Section title for a part other than the body
+ */
+function getPartTitle(xmlPath: string): string {
+  if (/header\d*\.xml$/.test(xmlPath)) return 'Header';
+  if (/footer\d*\.xml$/.test(xmlPath)) return 'Footer';
+  if (/footnotes\.xml$/.test(xmlPath)) return 'Footnotes';
+  if (/endnotes\.xml$/.test(xmlPath)) return 'Endnotes';
+  if (/comments\.xml$/.test(xmlPath)) return 'Comments';
+  return xmlPath;
+}
+
 /**
  * Classifies a section based on its title/heading
  */
 function classifyLegalSection(title: string): LegalSectionType {
   const lower = title.toLowerCase();
 
+  // Testimonium clause - mentions "this Agreement", so it has to come before the preamble
+  if (/^in witness whereof/i.test(lower)) {
+    return 'signatures';
+  }
   // Preamble / Introduction
   if (/preamble|introduction|parties|between|this agreement/i.test(lower)) {
     return 'preamble';
@@ -319,8 +1142,9 @@ function classifyLegalSection(title: string): LegalSectionType {
   if (/general|miscellaneous|sever|amendment|waiver|entire agreement|notice|force majeure/i.test(lower)) {
     return 'general_provisions';
   }
-  // Signatures
-  if (/signature|witness|execut|sign|in witness whereof/i.test(lower)) {
+  // Signatures - only a heading that is nothing but that ("Signatures", "5. Execution Page"),
+  // so articles like "Execution of the Works" keep their content type
+  if (/^(?:(?:\d+\.?)+\)?\s*|article\s+\w+\.?\s*|section\s+\w+\.?\s*)?(?:signatures?(?: page| block)?|execution(?: page| block)?|signing|signatories|witness(?:es)?)\s*[:.]?$/i.test(lower)) {
     return 'signatures';
   }
   // Schedules / Annexes
@@ -336,18 +1160,32 @@ function classifyLegalSection(title: string): LegalSectionType {
  */
 export function replaceParagraphText(
   paragraph: Element,
-  translatedText: string
+  translatedText: string,
+  policy: TrackedChangesPolicy = 'current'
 ): void {
-  const textElements = paragraph.getElementsByTagNameNS(W_NS, 't');
+  replaceTextElements(getTextElements(paragraph, policy), translatedText);
+  removeEmptyRevisions(paragraph);
+}
+
+/**
+ * Replaces the text of a single revision (inserted or deleted run wrapper)
+ */
+export function replaceRevisionText(revision: Element, translatedText: string): void {
+  replaceTextElements(getRevisionTextElements(revision), translatedText);
+}
 
+/**
+ * Puts the text into the first element and clears the rest
+ */
+function replaceTextElements(textElements: Element[], translatedText: string): void {
   if (textElements.length === 0) {
     return;
   }
 
-  // Put all translated text in the first <w:t> element
+  // Put all translated text in the first text element
   textElements[0].textContent = translatedText;
 
-  // Clear remaining <w:t> elements to avoid duplication
+  // Clear remaining text elements to avoid duplication
   for (let i = textElements.length - 1; i > 0; i--) {
     const textEl = textElements[i];
     const run = textEl.parentElement; // <w:r> element
@@ -367,3 +1205,215 @@ export function replaceParagraphText(
     }
   }
 }
+
+/**
+ * Replaces paragraph text span by span, cloning each span's original run so its formatting survives.
+ * The tagged translation refers to spans by number (<r1>…</r1>); untagged text keeps the formatting
+ * of the span before it. Protected content is moved to where its <fN/> placeholder ended up;
+ * a placeholder the translation lost leaves its field where it was.
+ * Spans inside a hyperlink go into a copy of that hyperlink, so the link target is kept.
+ */
+export function replaceParagraphRuns(
+  paragraph: Element,
+  taggedText: string,
+  policy: TrackedChangesPolicy = 'current',
+  splitFormatting: boolean = true
+): void {
+  const pieces = getParagraphPieces(paragraph, policy, splitFormatting);
+  const spans = pieces.filter((piece): piece is Extract<ParagraphPiece, { kind: 'text' }> => piece.kind === 'text');
+  const fields = pieces.filter((piece): piece is Extract<ParagraphPiece, { kind: 'protected' }> => piece.kind === 'protected');
+  const items = parseRunTags(taggedText, spans.length, fields.length);
+
+  if (spans.length === 0 || items.length === 0) {
+    replaceParagraphText(paragraph, stripRunTags(taggedText), policy);
+    return;
+  }
+
+  // Lay the translation out where the original content started, directly in the paragraph: before
+  // the outermost wrapper (w:ins, smart tag, content control) of the first piece, so the whole
+  // translation doesn't end up inside it. The marker holds that position while protected nodes
+  // are moved around it
+  const doc = paragraph.ownerDocument;
+  const first = pieces[0];
+  const start = first.kind === 'text' ? first.hyperlink || first.runs[0] : first.nodes[0];
+  let outermost: Node = start;
+  while (outermost.parentNode && outermost.parentNode !== paragraph) {
+    outermost = outermost.parentNode;
+  }
+  if (outermost.parentNode !== paragraph) return;
+  const parent = paragraph;
+  const marker = doc.createTextNode('');
+  parent.insertBefore(marker, outermost);
+
+  // Wrappers of the original runs, innermost first, to drop once they are left empty
+  const wrappers = new Set<Element>();
+  for (const span of spans) {
+    for (const run of span.runs) {
+      for (let node = run.parentElement; node && node !== paragraph; node = node.parentElement) {
+        if (node !== span.hyperlink) wrappers.add(node);
+      }
+    }
+  }
+
+  const placedFields = new Set<number>();
+  let currentLink: Element | null = null;
+  let currentLinkSource: Element | null = null;
+
+  for (const item of items) {
+    if ('field' in item) {
+      if (placedFields.has(item.field)) continue;
+      placedFields.add(item.field);
+      fields[item.field].nodes.forEach((node) => parent.insertBefore(node, marker));
+      currentLink = null;
+      continue;
+    }
+
+    const span = spans[item.span];
+    const run = createTextRun(span.runs[0], item.text);
+    if (!span.hyperlink) {
+      parent.insertBefore(run, marker);
+      currentLink = null;
+      continue;
+    }
+    if (!currentLink || currentLinkSource !== span.hyperlink) {
+      currentLink = span.hyperlink.cloneNode(false) as Element;
+      currentLinkSource = span.hyperlink;
+      parent.insertBefore(currentLink, marker);
+    }
+    currentLink.appendChild(run);
+  }
+
+  parent.removeChild(marker);
+
+  // Then drop the original text, keeping runs that still hold other content (tabs, notes, drawings)
+  for (const span of spans) {
+    for (const run of span.runs) {
+      for (const textEl of getChildElements(run, 't')) {
+        run.removeChild(textEl);
+      }
+      const remaining = Array.from(run.children).filter((child) => child.localName !== 'rPr');
+      if (remaining.length === 0 && run.parentNode) {
+        run.parentNode.removeChild(run);
+      }
+    }
+    if (span.hyperlink && span.hyperlink.children.length === 0) {
+      span.hyperlink.parentNode?.removeChild(span.hyperlink);
+    }
+  }
+  for (const wrapper of wrappers) {
+    const content = Array.from(wrapper.children).filter((child) => !WRAPPER_PROPERTIES.includes(child.localName));
+    if (content.length === 0) {
+      wrapper.parentNode?.removeChild(wrapper);
+    }
+  }
+  removeEmptyRevisions(paragraph);
+}
+
+/**
+ * Drops run-level revision wrappers whose runs were all moved out or removed by a replacement.
+ * Paragraph-mark markers (w:rPr/w:del) are always empty and stay.
+ */
+function removeEmptyRevisions(paragraph: Element): void {
+  const wrappers = [...DELETION_WRAPPERS, ...INSERTION_WRAPPERS];
+  for (const element of Array.from(paragraph.getElementsByTagNameNS(W_NS, '*'))) {
+    if (!wrappers.includes(element.localName) || element.parentElement?.localName === 'rPr') continue;
+    if (element.children.length === 0) {
+      element.parentNode?.removeChild(element);
+    }
+  }
+}
+
+/**
+ * Accepts the run-level revisions of a single paragraph: deletions are dropped and insertions
+ * kept without their wrapper, like acceptAllRevisions does for a whole part
+ */
+export function acceptParagraphRevisions(paragraph: Element): void {
+  let revisions = getRevisionElements(paragraph);
+  while (revisions.length > 0) {
+    for (const revision of revisions) {
+      const parent = revision.parentNode;
+      if (!parent) continue;
+      if (isRevisionOfType(revision, INSERTION_WRAPPERS)) {
+        while (revision.firstChild) {
+          parent.insertBefore(revision.firstChild, revision);
+        }
+      }
+      parent.removeChild(revision);
+    }
+    // Deletions nested in an insertion only become outermost once it is unwrapped
+    revisions = getRevisionElements(paragraph);
+  }
+}
+
+/**
+ * Splits a tagged translation into pieces of text with the (0-based) span they belong to,
+ * and the (0-based) protected pieces referenced by <fN/> placeholders
+ */
+function parseRunTags(
+  taggedText: string,
+  spanCount: number,
+  fieldCount: number = 0
+): Array<{ span: number; text: string } | { field: number }> {
+  const pieces: Array<{ span: number; text: string } | { field: number }> = [];
+  let lastSpan = 0;
+  let lastIndex = 0;
+  let foundTag = false;
+
+  const pushText = (span: number, text: string) => {
+    if (!text) return;
+    const previous = pieces[pieces.length - 1];
+    if (previous && 'span' in previous && previous.span === span) {
+      previous.text += text;
+    } else {
+      pieces.push({ span, text });
+    }
+  };
+
+  // Placeholders may sit between spans or inside one
+  const pushPiece = (span: number, text: string) => {
+    let placeholderIndex = 0;
+    for (const match of text.matchAll(FIELD_PLACEHOLDER_PATTERN)) {
+      foundTag = true;
+      pushText(span, stripRunTags(text.slice(placeholderIndex, match.index)));
+      const field = Number(match[1]) - 1;
+      if (field >= 0 && field < fieldCount) {
+        pieces.push({ field });
+      }
+      placeholderIndex = (match.index ?? 0) + match[0].length;
+    }
+    pushText(span, stripRunTags(text.slice(placeholderIndex)));
+  };
+
+  for (const match of taggedText.matchAll(RUN_TAG_PATTERN)) {
+    foundTag = true;
+    pushPiece(lastSpan, taggedText.slice(lastIndex, match.index));
+
+    const span = Number(match[1]) - 1;
+    lastSpan = span >= 0 && span < spanCount ? span : lastSpan;
+    pushPiece(lastSpan, match[2]);
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+
+  pushPiece(lastSpan, taggedText.slice(lastIndex));
+  return foundTag ? pieces : [];
+}
+
+/**
+ * Creates a run with the formatting of a template run and the given text
+ */
+function createTextRun(template: Element, text: string): Element {
+  const doc = template.ownerDocument;
+  const run = template.cloneNode(false) as Element;
+
+  const rPr = getChildElements(template, 'rPr')[0];
+  if (rPr) {
+    run.appendChild(rPr.cloneNode(true));
+  }
+
+  const textEl = doc.createElementNS(W_NS, 'w:t');
+  textEl.setAttributeNS(XML_NS, 'xml:space', 'preserve');
+  textEl.textContent = text;
+  run.appendChild(textEl);
+
+  return run;
+}
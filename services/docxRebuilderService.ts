@@ -1,61 +1,272 @@
 import JSZip from "jszip";
-import { ParsedDocx } from "../types";
-import { replaceParagraphText } from "./docxParserService";
+import { ParsedDocx, RebuildOptions, TextSegment } from "../types";
+import {
+  getTextRuns,
+  replaceParagraphText,
+  replaceParagraphRuns,
+  replaceRevisionText,
+  getRevisionElements,
+  acceptParagraphRevisions,
+  extractParagraphText,
+  extractRevisionText,
+  resolveElementLocator,
+  findFallbackParagraph,
+  stripRunTags,
+  hasRunTags,
+  loadXmlDocument,
+} from "./docxParserService";
+import { hasTableOfContents, refreshTableOfContents, requestFieldUpdate } from "./tableOfContentsService";
+import {
+  LanguageProfile,
+  getLanguageProfile,
+  applyParagraphLanguage,
+  applyRunsLanguage,
+  applyDocumentLanguage,
+} from "./docxLanguageService";
 
 // WordprocessingML namespace
 const W_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+// Word 2012 namespace (comment threads in commentsExtended.xml)
+const W15_NS = "http://schemas.microsoft.com/office/word/2012/wordml";
+// XML namespace (xml:space)
+const XML_NS = "http://www.w3.org/XML/1998/namespace";
+
+const BODY_PATH = "word/document.xml";
+const SETTINGS_PATH = "word/settings.xml";
+const STYLES_PATH = "word/styles.xml";
+const CORE_PROPERTIES_PATH = "docProps/core.xml";
+
+// Author shown in Word's Review pane for tracked translations
+const REVISION_AUTHOR = "LegalTranslatr";
+
+// Creates a w:ins / w:del element for tracked output
+type RevisionFactory = (doc: Document, localName: "ins" | "del") => Element;
+
+// A segment together with the paragraph or property element (and revision wrapper) its locator points at
+interface LocatedSegment {
+  segment: TextSegment;
+  element: Element;
+  revision: Element | null;
+}
 
 /**
  * Rebuilds a DOCX file with translated content
  */
 export async function rebuildDocx(
   parsedDocx: ParsedDocx,
-  translations: Map<string, string>
+  translations: Map<string, string>,
+  options: RebuildOptions = {}
 ): Promise<string> {
   const zip = parsedDocx.zipInstance as JSZip;
   const xmlDocuments = parsedDocx.xmlDocuments;
-  const segments = parsedDocx.segments;
-
-  // Group segments by XML path
-  const segmentsByPath = new Map<string, typeof segments>();
-  for (const segment of segments) {
-    const existing = segmentsByPath.get(segment.xmlPath) || [];
-    existing.push(segment);
-    segmentsByPath.set(segment.xmlPath, existing);
-  }
-
-  // Process each XML file
-  for (const [xmlPath, pathSegments] of segmentsByPath.entries()) {
-    const doc = xmlDocuments.get(xmlPath);
-    if (!doc) continue;
-
-    // Get all paragraphs in this document
-    const paragraphs = doc.getElementsByTagNameNS(W_NS, "p");
-
-    // Apply translations to each segment
-    for (const segment of pathSegments) {
-      const translation = translations.get(segment.id);
-      if (translation === undefined) continue;
-
-      // Find the paragraph by index
-      const paragraph = paragraphs[segment.paragraphIndex];
-      if (!paragraph) {
-        console.warn(`Paragraph not found at index ${segment.paragraphIndex} in ${xmlPath}`);
-        continue;
+
+  // Tracked output: every paragraph becomes a w:del of the source plus a w:ins of the translation
+  const createRevision = options.trackChanges
+    ? createRevisionFactory(xmlDocuments, options)
+    : null;
+
+  // Translated runs are tagged with the target language, so Word proofs them correctly
+  const language = options.targetLanguage
+    ? getLanguageProfile(options.targetLanguage, options.eastAsianFont)
+    : null;
+
+  // Locate every segment in every part first, so a mismatch aborts before anything is changed
+  const located = new Map<string, LocatedSegment[]>();
+  for (const [xmlPath, doc] of xmlDocuments.entries()) {
+    located.set(xmlPath, locateSegments(parsedDocx, xmlPath, doc));
+  }
+
+  // Process each XML file (body, headers/footers, footnotes/endnotes)
+  for (const targets of located.values()) {
+    applyLocatedTranslations(targets, translations, parsedDocx, createRevision, language);
+  }
+
+  if (language) {
+    const styles = await loadXmlDocument(zip, STYLES_PATH);
+    applyDocumentLanguage(language, {
+      body: xmlDocuments.get(BODY_PATH),
+      styles,
+      coreProperties: xmlDocuments.get(CORE_PROPERTIES_PATH),
+    });
+    if (styles) {
+      zip.file(STYLES_PATH, new XMLSerializer().serializeToString(styles));
+    }
+  }
+
+  // A cached TOC still lists the source headings - copy the translated ones in and have Word refresh it on open.
+  // Tracked output leaves the cached entries alone, since that edit wouldn't show up as a revision;
+  // the field update on open rebuilds them from the translated headings
+  const body = xmlDocuments.get(BODY_PATH);
+  if (body && hasTableOfContents(body)) {
+    if (!createRevision) {
+      refreshTableOfContents(body);
+    }
+    const settings = await loadXmlDocument(zip, SETTINGS_PATH);
+    if (settings) {
+      requestFieldUpdate(settings);
+      zip.file(SETTINGS_PATH, new XMLSerializer().serializeToString(settings));
+    }
+  }
+
+  repairCommentThreads(xmlDocuments);
+
+  // Serialize every parsed part back into the ZIP - parts without translated segments
+  // can still have changed while parsing (e.g. accepted revisions)
+  const serializer = new XMLSerializer();
+  for (const [xmlPath, doc] of xmlDocuments.entries()) {
+    zip.file(xmlPath, serializer.serializeToString(doc));
+  }
+
+  return generateDocxDataUrl(zip);
+}
+
+/**
+ * Writes the translations of one XML part's segments into the given document.
+ * The document may be a clone of the parsed part, as long as its structure is unchanged.
+ */
+export function applyTranslationsToPart(
+  parsedDocx: ParsedDocx,
+  xmlPath: string,
+  doc: Document,
+  translations: Map<string, string>,
+  createRevision: RevisionFactory | null = null,
+  language: LanguageProfile | null = null
+): void {
+  const targets = locateSegments(parsedDocx, xmlPath, doc);
+  applyLocatedTranslations(targets, translations, parsedDocx, createRevision, language);
+}
+
+/**
+ * Resolves the locator of every segment of one XML part and checks that the paragraph found
+ * still holds the segment's source text. Throws instead of guessing: writing a translation
+ * into the wrong paragraph is worse than not writing the file at all.
+ * All locators are resolved before any edit, since edits shift sibling positions.
+ */
+function locateSegments(parsedDocx: ParsedDocx, xmlPath: string, doc: Document): LocatedSegment[] {
+  const located: LocatedSegment[] = [];
+
+  for (const segment of parsedDocx.segments) {
+    if (segment.xmlPath !== xmlPath) continue;
+
+    const element = resolveElementLocator(doc, segment.locator);
+    const isProperty = segment.context.location === "properties";
+    if (!element || (!isProperty && element.localName !== "p")) {
+      throw new Error(`Segment ${segment.id}: paragraph not found at ${segment.locator} in ${xmlPath}`);
+    }
+
+    let revision: Element | null = null;
+    let currentText: string;
+    if (isProperty) {
+      currentText = element.textContent || "";
+    } else if (segment.revisionIndex !== undefined) {
+      revision = getRevisionElements(element)[segment.revisionIndex] || null;
+      if (!revision) {
+        throw new Error(`Segment ${segment.id}: revision ${segment.revisionIndex} not found at ${segment.locator} in ${xmlPath}`);
       }
+      currentText = extractRevisionText(revision);
+    } else {
+      currentText = extractParagraphText(element, parsedDocx.trackedChanges);
+    }
+
+    if (currentText !== segment.text) {
+      throw new Error(
+        `Segment ${segment.id}: text at ${segment.locator} in ${xmlPath} no longer matches the source ` +
+        `(expected "${truncate(segment.text)}", found "${truncate(currentText)}"). The document was not written.`
+      );
+    }
+
+    located.push({ segment, element, revision });
+  }
+
+  return located;
+}
+
+/**
+ * Writes translations into already located paragraphs and properties
+ */
+function applyLocatedTranslations(
+  targets: LocatedSegment[],
+  translations: Map<string, string>,
+  parsedDocx: ParsedDocx,
+  createRevision: RevisionFactory | null,
+  language: LanguageProfile | null
+): void {
+  for (const { segment, element, revision } of targets) {
+    const translation = translations.get(segment.id);
+    if (translation === undefined) continue;
+
+    // Untranslated segments (excluded or failed) keep their original runs untouched
+    if (translation === segment.text || translation === segment.taggedText) continue;
 
-      // Replace the text in the paragraph
-      replaceParagraphText(paragraph, translation);
+    // Document properties are plain text
+    if (segment.context.location === "properties") {
+      element.textContent = stripRunTags(translation);
+      continue;
     }
 
-    // Serialize XML back to string
-    const serializer = new XMLSerializer();
-    const newXmlString = serializer.serializeToString(doc);
+    // Revision segments only touch their own w:ins / w:del wrapper
+    if (revision) {
+      replaceRevisionText(revision, translation);
+      if (language) applyRunsLanguage(revision, language);
+      continue;
+    }
+
+    // Text boxes keep a legacy VML copy in mc:Fallback, which has to match what newer Word versions show
+    const fallback = findFallbackParagraph(element);
 
-    // Update ZIP file
-    zip.file(xmlPath, newXmlString);
+    for (const paragraph of fallback ? [element, fallback] : [element]) {
+      translateParagraph(paragraph, segment.taggedText, translation, parsedDocx, createRevision);
+      if (language) applyParagraphLanguage(paragraph, language);
+    }
   }
+}
 
+/**
+ * Shortens text for error messages
+ */
+function truncate(text: string, maxLength: number = 60): string {
+  return text.length > maxLength ? `${text.substring(0, maxLength)}…` : text;
+}
+
+/**
+ * Replaces a paragraph's text with its translation, optionally as a tracked revision
+ */
+function translateParagraph(
+  paragraph: Element,
+  taggedText: string | undefined,
+  translation: string,
+  parsedDocx: ParsedDocx,
+  createRevision: RevisionFactory | null
+): void {
+  const policy = parsedDocx.trackedChanges;
+
+  // The current text is replaced as a whole, so the paragraph's pending revisions are accepted
+  // first: otherwise source-language deletions stay behind next to the translation, and
+  // insertions are left emptied (or, in tracked output, nest with the del/ins pair)
+  if (policy === "current") {
+    acceptParagraphRevisions(paragraph);
+  }
+
+  const deletedRuns = createRevision
+    ? getTextRuns(paragraph, policy).map(toDeletedRun)
+    : [];
+
+  // Replace the text in the paragraph, span by span when the run markup survived translation
+  if (taggedText && hasRunTags(translation)) {
+    replaceParagraphRuns(paragraph, translation, policy, parsedDocx.preserveFormatting);
+  } else {
+    replaceParagraphText(paragraph, stripRunTags(translation), policy);
+  }
+
+  if (createRevision) {
+    markParagraphAsRevision(paragraph, deletedRuns, createRevision, policy);
+  }
+}
+
+/**
+ * Packs the ZIP archive into a DOCX data URL
+ */
+export async function generateDocxDataUrl(zip: JSZip): Promise<string> {
   // Generate DOCX blob
   const blob = await zip.generateAsync({
     type: "blob",
@@ -71,6 +282,140 @@ export async function rebuildDocx(
   });
 }
 
+/**
+ * Creates w:ins / w:del elements with a shared author and date and document-unique ids
+ */
+function createRevisionFactory(
+  xmlDocuments: Map<string, Document>,
+  options: RebuildOptions
+): RevisionFactory {
+  // Revision ids must not collide with ids already used in any part
+  let nextId = 1;
+  for (const doc of xmlDocuments.values()) {
+    const elements = doc.getElementsByTagName("*");
+    for (let i = 0; i < elements.length; i++) {
+      const id = Number(elements[i].getAttribute("w:id"));
+      if (Number.isInteger(id) && id >= nextId) {
+        nextId = id + 1;
+      }
+    }
+  }
+
+  const author = options.revisionAuthor || REVISION_AUTHOR;
+  const date = options.revisionDate || new Date().toISOString().replace(/\.\d{3}Z$/, "Z");
+
+  return (doc, localName) => {
+    const element = doc.createElementNS(W_NS, `w:${localName}`);
+    element.setAttribute("w:id", String(nextId++));
+    element.setAttribute("w:author", author);
+    element.setAttribute("w:date", date);
+    return element;
+  };
+}
+
+/**
+ * Copies a run as deleted text: formatting plus <w:delText>, nothing else
+ */
+function toDeletedRun(run: Element): Element {
+  const doc = run.ownerDocument;
+  const deleted = run.cloneNode(false) as Element;
+
+  for (const child of Array.from(run.children)) {
+    if (child.localName === "rPr") {
+      deleted.appendChild(child.cloneNode(true));
+    } else if (child.localName === "t") {
+      const delText = doc.createElementNS(W_NS, "w:delText");
+      delText.setAttributeNS(XML_NS, "xml:space", "preserve");
+      delText.textContent = child.textContent;
+      deleted.appendChild(delText);
+    }
+  }
+
+  return deleted;
+}
+
+/**
+ * Wraps a paragraph's translated runs in w:ins and puts the source runs back in front of them as a w:del
+ */
+function markParagraphAsRevision(
+  paragraph: Element,
+  deletedRuns: Element[],
+  createRevision: RevisionFactory,
+  policy: ParsedDocx["trackedChanges"]
+): void {
+  const doc = paragraph.ownerDocument;
+
+  // Runs already inside a revision can't be nested in another one
+  const insertedRuns = getTextRuns(paragraph, policy).filter(
+    (run) => !isInsideRevision(run, paragraph)
+  );
+  if (insertedRuns.length === 0) return;
+
+  let currentIns: Element | null = null;
+  for (const run of insertedRuns) {
+    // Consecutive sibling runs share one w:ins
+    if (!currentIns || currentIns.nextSibling !== run) {
+      currentIns = createRevision(doc, "ins");
+      run.parentNode?.insertBefore(currentIns, run);
+    }
+    currentIns.appendChild(run);
+  }
+
+  if (deletedRuns.length > 0) {
+    const del = createRevision(doc, "del");
+    deletedRuns.forEach((run) => del.appendChild(run));
+    const firstIns = insertedRuns[0].parentNode as Element;
+    firstIns.parentNode?.insertBefore(del, firstIns);
+  }
+}
+
+/**
+ * Checks whether a run already sits in a w:ins / w:del / w:moveTo / w:moveFrom wrapper
+ */
+function isInsideRevision(run: Element, paragraph: Element): boolean {
+  let node = run.parentElement;
+  while (node && node !== paragraph) {
+    if (["ins", "del", "moveTo", "moveFrom"].includes(node.localName)) {
+      return true;
+    }
+    node = node.parentElement;
+  }
+  return false;
+}
+
+/**
+ * Drops comment threads in commentsExtended.xml that no longer point at a comment paragraph.
+ * Threads are keyed by the w14:paraId of each comment's last paragraph; Word reports unreadable
+ * content when a thread references a missing paragraph. Replies to a dropped thread become
+ * top-level comments.
+ */
+function repairCommentThreads(xmlDocuments: Map<string, Document>): void {
+  const comments = xmlDocuments.get("word/comments.xml");
+  const commentsExtended = xmlDocuments.get("word/commentsExtended.xml");
+  if (!comments || !commentsExtended) return;
+
+  const paraIds = new Set<string>();
+  const paragraphs = comments.getElementsByTagNameNS(W_NS, "p");
+  for (let i = 0; i < paragraphs.length; i++) {
+    const paraId = paragraphs[i].getAttribute("w14:paraId");
+    if (paraId) paraIds.add(paraId);
+  }
+
+  const threads = Array.from(commentsExtended.getElementsByTagNameNS(W15_NS, "commentEx"));
+  const orphaned = threads.filter((thread) => !paraIds.has(thread.getAttribute("w15:paraId") || ""));
+  if (orphaned.length === 0) return;
+
+  for (const thread of orphaned) {
+    thread.parentNode?.removeChild(thread);
+  }
+  for (const thread of threads) {
+    const parentId = thread.getAttribute("w15:paraIdParent");
+    if (parentId && !paraIds.has(parentId)) {
+      thread.removeAttribute("w15:paraIdParent");
+    }
+  }
+}
+
 /**
  * Converts a data URL to a Blob for download
  */
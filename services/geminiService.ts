@@ -1,7 +1,87 @@
-import { BatchTranslationResponse, TranslationConfig, LegalDocumentContext, LegalSection, LegalSectionType } from "../types";
+import { GenerateContentConfig } from "@google/genai";
+import {
+  BatchTranslationResponse,
+  TranslationConfig,
+  LegalDocumentContext,
+  LegalSection,
+  LegalSectionType,
+  DocumentPartNotes,
+  TranslationMemoryMatch,
+} from "../types";
+import {
+  BATCH_TRANSLATION_SCHEMA,
+  DOCUMENT_CONTEXT_SCHEMA,
+  DOCUMENT_PART_NOTES_SCHEMA,
+  KeyedTranslation,
+  parseDocumentContext,
+  parseDocumentPartNotes,
+  parseStructuredResponse,
+} from "./responseSchemaService";
+import { findGlossaryTerms } from "./glossaryService";
+import { PseudonymizationSession, pseudonymizePrompt, restorePseudonyms } from "./pseudonymizationService";
+
+/**
+ * Error from the translation API, with the HTTP status so callers can tell
+ * transient failures (rate limits, server errors) from permanent ones
+ */
+export class GeminiApiError extends Error {
+  status: number;
+  retryAfterMs?: number;
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = "GeminiApiError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * A translation response that can't be parsed or doesn't line up with the input segments
+ */
+export class TranslationFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TranslationFormatError";
+  }
+}
+
+/**
+ * Checks whether a failed request is worth retrying: rate limits, server errors, network failures
+ * and malformed or misaligned responses
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof TranslationFormatError) {
+    return true;
+  }
+  if (error instanceof GeminiApiError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  // fetch rejects with a TypeError when the network request itself fails
+  return error instanceof TypeError;
+}
+
+/**
+ * Checks whether a request failed because the translation was cancelled
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
 
 // Helper function to call the serverless API
-async function callGeminiAPI(model: string, contents: string, config?: any): Promise<string> {
+// With a pseudonymisation session, personal data is replaced before sending and put back in the response
+// Aborting the signal cancels the request in flight; the API stops generating when the client disconnects
+async function callGeminiAPI(
+  model: string,
+  contents: string,
+  config?: GenerateContentConfig,
+  privacy?: PseudonymizationSession,
+  signal?: AbortSignal
+): Promise<string> {
+  if (privacy) {
+    contents = pseudonymizePrompt(privacy, contents);
+  }
+
   const response = await fetch('/api/translate', {
     method: 'POST',
     headers: {
@@ -12,20 +92,31 @@ async function callGeminiAPI(model: string, contents: string, config?: any): Pro
       contents,
       config,
     }),
+    signal,
   });
 
   if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.message || 'API request failed');
+    // Gateway errors (e.g. timeouts) may not come back as JSON
+    const error = await response.json().catch(() => ({}));
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    throw new GeminiApiError(
+      error.message || `API request failed (${response.status})`,
+      response.status,
+      Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined
+    );
   }
 
   const data = await response.json();
-  return data.text || '';
+  const text = data.text || '';
+  return privacy ? restorePseudonyms(privacy, text, config?.responseMimeType === "application/json") : text;
 }
 
 // Model for translation pipeline
 const TRANSLATION_MODEL = "gemini-2.5-flash-lite";
 
+// Upper bound for the text sent to document context analysis
+const MAX_CONTEXT_SAMPLE_CHARS = 40000;
+
 // Language display names
 const LANGUAGE_NAMES: Record<string, string> = {
   auto: "Auto-detect",
@@ -40,6 +131,30 @@ const LANGUAGE_NAMES: Record<string, string> = {
   ko: "Korean",
   ar: "Arabic",
   ru: "Russian",
+  sr: "Serbian",
+  nl: "Dutch",
+  pl: "Polish",
+};
+
+// Extra prompt requirements for section types that need more than the general rules
+const SECTION_INSTRUCTIONS: Partial<Record<LegalSectionType, string[]>> = {
+  definitions: [
+    "Translate each defined term the same way every time it appears and keep its capitalisation or quotation marks",
+    "Keep the wording of each definition literal - do not broaden, narrow or merge definitions",
+  ],
+  liability: [
+    "Translate strictly word for word where the target language allows - caps, exclusions and carve-outs must not change in scope",
+    "Keep qualifiers such as \"gross negligence\", \"wilful misconduct\", \"direct\" and \"indirect\" distinct",
+  ],
+  warranties: [
+    "Keep the distinction between representations, warranties and guarantees",
+  ],
+  payment: [
+    "Keep amounts, currencies, percentages and payment deadlines exactly as written",
+  ],
+  dispute_resolution: [
+    "Keep names of courts, arbitral institutions, rules and seats of arbitration exactly as written",
+  ],
 };
 
 /**
@@ -55,12 +170,16 @@ export function getLanguageName(code: string): string {
  * @param text The legal text to translate.
  * @param targetLanguage The target language (e.g., "Spanish").
  * @param excludedText Text to exclude from translation (optional).
+ * @param privacy Pseudonymisation session for personal data (optional).
+ * @param signal Cancels the request (optional).
  * @returns The translated text.
  */
 export const translateLegalText = async (
   text: string, 
   targetLanguage: string = "Spanish",
-  excludedText?: string
+  excludedText?: string,
+  privacy?: PseudonymizationSession,
+  signal?: AbortSignal
 ): Promise<string> => {
   try {
     const modelId = "gemini-3-flash-preview";
@@ -82,55 +201,44 @@ export const translateLegalText = async (
       `;
     }
 
-    const responseText = await callGeminiAPI(modelId, prompt);
+    const responseText = await callGeminiAPI(modelId, prompt, undefined, privacy, signal);
     return responseText || "Translation failed to generate text.";
 
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Gemini Translation Error:", error);
     throw new Error("Failed to translate document.");
   }
 };
 
 /**
- * Analyzes legal document context at the document level
+ * Analyzes legal document context at the document level. The sample is the whole document
+ * for short ones, or selected sections plus notes on every part for long ones
+ * (see documentContextService).
  */
 export async function analyzeLegalDocumentContext(
   sampleText: string,
-  sourceLanguage: string
+  sourceLanguage: string,
+  privacy?: PseudonymizationSession,
+  signal?: AbortSignal
 ): Promise<LegalDocumentContext> {
-  const prompt = `You are a legal document analyst for a law firm. Analyze this legal document excerpt and provide structured analysis.
+  const prompt = `You are a legal document analyst for a law firm. Analyze this legal document and provide structured analysis.
 
-DOCUMENT EXCERPT:
-${sampleText.substring(0, 4000)}
+DOCUMENT:
+${sampleText.substring(0, MAX_CONTEXT_SAMPLE_CHARS)}
 
-Respond in JSON format:
-{
-  "documentType": "specific type (e.g., Service Agreement, NDA, Employment Contract, Lease Agreement, Power of Attorney)",
-  "parties": ["Party A name/description", "Party B name/description"],
-  "jurisdiction": "governing law or jurisdiction if mentioned, or null",
-  "formalityLevel": "high" or "medium" or "standard",
-  "specialTerminology": ["key legal terms that need precise translation"],
-  "summary": "One sentence describing the document's purpose"
-}`;
+Identify the document type, every party, the governing law or jurisdiction (null if not mentioned), the formality level, key legal terms that need precise translation, every term the document defines, and summarize the document's purpose in one sentence.`;
 
   try {
     const text = await callGeminiAPI(TRANSLATION_MODEL, prompt, {
       temperature: 0.1,
-      maxOutputTokens: 500,
-    });
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-      return {
-        documentType: parsed.documentType || "Legal Document",
-        parties: parsed.parties || [],
-        jurisdiction: parsed.jurisdiction || undefined,
-        formalityLevel: parsed.formalityLevel || "high",
-        specialTerminology: parsed.specialTerminology || [],
-        summary: parsed.summary || "Legal document for professional translation.",
-      };
-    }
+      maxOutputTokens: 2048,
+      responseMimeType: "application/json",
+      responseSchema: DOCUMENT_CONTEXT_SCHEMA,
+    }, privacy, signal);
+    return parseDocumentContext(text);
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.warn("Failed to analyze legal document context:", error);
   }
 
@@ -140,10 +248,38 @@ Respond in JSON format:
     parties: [],
     formalityLevel: "high",
     specialTerminology: [],
+    definedTerms: [],
     summary: "Professional legal document requiring formal translation.",
   };
 }
 
+/**
+ * Takes notes on one part of a long document: parties, defined terms, governing law
+ * and a short summary (map step of the document context pass)
+ */
+export async function summarizeDocumentPart(
+  partText: string,
+  partNumber: number,
+  totalParts: number,
+  privacy?: PseudonymizationSession,
+  signal?: AbortSignal
+): Promise<DocumentPartNotes> {
+  const prompt = `You are a legal document analyst for a law firm. This is part ${partNumber} of ${totalParts} of a legal document. Take notes on this part only.
+
+DOCUMENT PART:
+${partText}
+
+List every party named and every term defined in this part, the governing law or jurisdiction if this part states it (null otherwise), and summarize what this part covers.`;
+
+  const text = await callGeminiAPI(TRANSLATION_MODEL, prompt, {
+    temperature: 0.1,
+    maxOutputTokens: 2048,
+    responseMimeType: "application/json",
+    responseSchema: DOCUMENT_PART_NOTES_SCHEMA,
+  }, privacy, signal);
+  return parseDocumentPartNotes(text);
+}
+
 /**
  * Analyzes context for a specific section of a legal document
  */
@@ -185,6 +321,17 @@ export async function analyzeDocumentContext(
   return `${context.documentType}: ${context.summary} Formality: ${context.formalityLevel}. Key terms: ${context.specialTerminology.join(", ")}.`;
 }
 
+/**
+ * Optional context for translateBatchLegalText
+ */
+export interface BatchTranslationOptions {
+  sectionContext?: string;
+  sectionType?: LegalSectionType;
+  references?: Map<number, TranslationMemoryMatch>; // 1-based input id -> similar earlier translation
+  privacy?: PseudonymizationSession;
+  signal?: AbortSignal; // Cancels the request in flight
+}
+
 /**
  * Translates a batch of legal text segments with context
  */
@@ -192,23 +339,50 @@ export async function translateBatchLegalText(
   texts: string[],
   config: TranslationConfig,
   documentContext: string,
-  sectionContext?: string
+  options: BatchTranslationOptions = {}
 ): Promise<BatchTranslationResponse> {
+  const { sectionContext, sectionType, references, privacy, signal } = options;
   const sourceLangDisplay =
     config.sourceLanguage === "auto"
       ? "the detected language"
       : getLanguageName(config.sourceLanguage);
   const targetLangDisplay = getLanguageName(config.targetLanguage);
 
-  const excludeNote = config.excludedTerms.length > 0
-    ? `\nPRESERVE UNCHANGED: ${config.excludedTerms.join(", ")}`
+  const sectionNote = sectionContext ? `\nSECTION: ${sectionContext}` : "";
+
+  // Only the glossary terms that occur in this batch
+  const glossaryTerms = findGlossaryTerms(texts, config.glossary);
+  const glossaryNote = glossaryTerms.length > 0
+    ? `\nAPPROVED TERMINOLOGY (always use these translations, inflected as the sentence requires):\n${glossaryTerms
+        .map((entry) => `- "${entry.sourceTerm}" → "${entry.targetTerm}"`)
+        .join("\n")}`
     : "";
 
-  const sectionNote = sectionContext ? `\nSECTION: ${sectionContext}` : "";
+  // Similar earlier translations from the translation memory - references, not verified output
+  const referenceNote = references && references.size > 0
+    ? `\nTRANSLATION MEMORY (earlier translations of similar or identical text - use them for consistent wording where the text is the same, but translate every item yourself and correct any errors):\n${Array.from(references)
+        .map(([id, match]) => `- Item ${id}: ${JSON.stringify(match.sourceText)} → ${JSON.stringify(match.targetText)}`)
+        .join("\n")}`
+    : "";
+
+  const sectionRules = (sectionType && SECTION_INSTRUCTIONS[sectionType]) || [];
+  const sectionRulesNote = sectionRules.map((rule) => `\n- ${rule}`).join("");
+
+  const formattingNote = texts.some((text) => /<r\d+>/.test(text))
+    ? "\n- Inline tags like <r1>...</r1> mark formatted text: wrap the translation of each tagged phrase in the same tag, keep every tag, do not invent new ones"
+    : "";
+
+  const protectedNote = texts.some((text) => /⟦P\d+⟧/.test(text))
+    ? "\n- Tokens like ⟦P1⟧ stand for names, numbers, amounts and citations that must not change: copy each token exactly once, unchanged, where it belongs in the translated sentence"
+    : "";
+
+  const placeholderNote = texts.some((text) => /<f\d+\/>/.test(text))
+    ? "\n- Placeholders like <f1/> stand for fields, cross-references and bookmarks: keep each one exactly once, placed where it belongs in the translated sentence"
+    : "";
 
   const prompt = `You are a certified legal translator for a law firm. Translate from ${sourceLangDisplay} to ${targetLangDisplay}.
 
-DOCUMENT: ${documentContext}${sectionNote}${excludeNote}
+DOCUMENT: ${documentContext}${sectionNote}${glossaryNote}${referenceNote}
 
 LEGAL TRANSLATION REQUIREMENTS:
 - Use formal legal register appropriate for court documents
@@ -216,71 +390,64 @@ LEGAL TRANSLATION REQUIREMENTS:
 - Maintain legal precision - do not paraphrase legal terms
 - Keep party names, dates, currency amounts, case numbers unchanged
 - Preserve numbered clauses and cross-references exactly
-- Use established legal terminology in target language
+- Use established legal terminology in target language${sectionRulesNote}${formattingNote}${placeholderNote}${protectedNote}
 
-Return EXACTLY ${texts.length} translations as JSON: {"translations":["...",...]}}
+Each input item has an id. Return EXACTLY ${texts.length} translations, one per input item with the same id.
 
 INPUT:
-${JSON.stringify(texts)}`;
+${JSON.stringify(texts.map((text, index) => ({ id: index + 1, text })))}`;
 
   const responseText = await callGeminiAPI(TRANSLATION_MODEL, prompt, {
     temperature: config.modelTemperature,
     maxOutputTokens: 16384,
-  });
+    responseMimeType: "application/json",
+    responseSchema: BATCH_TRANSLATION_SCHEMA,
+  }, privacy, signal);
 
   return parseTranslationResponse(responseText, texts);
 }
 
 /**
- * Parses the translation response from Gemini
+ * Parses the translation response from Gemini and lines it up with the input by id.
+ * Throws a TranslationFormatError when the response doesn't match the schema or any input
+ * is left without a translation, so the caller can re-request or split the batch.
  */
 function parseTranslationResponse(
   response: string,
   originalTexts: string[]
 ): BatchTranslationResponse {
+  let items: KeyedTranslation[];
   try {
-    // Remove markdown code blocks if present
-    let cleanResponse = response.trim();
-    if (cleanResponse.startsWith("```")) {
-      cleanResponse = cleanResponse
-        .replace(/^```(?:json)?\s*\n/, "")
-        .replace(/\n```\s*$/, "");
-    }
-
-    // Extract JSON from response
-    const jsonMatch = cleanResponse.match(/\{[\s\S]*"translations"[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error("No valid JSON found in response");
-    }
-
-    const parsed = JSON.parse(jsonMatch[0]);
+    items = parseStructuredResponse<{ translations: KeyedTranslation[] }>(
+      response,
+      BATCH_TRANSLATION_SCHEMA
+    ).translations;
+  } catch (error) {
+    throw new TranslationFormatError(error instanceof Error ? error.message : String(error));
+  }
 
-    if (!Array.isArray(parsed.translations)) {
-      throw new Error("Invalid response format: translations is not an array");
+  // Key translations by id; the first entry for an id wins
+  const byId = new Map<number, string>();
+  for (const item of items) {
+    if (!byId.has(item.id)) {
+      byId.set(item.id, item.text);
     }
+  }
 
-    // Ensure correct number of translations
-    if (parsed.translations.length !== originalTexts.length) {
-      console.warn(
-        `Translation count mismatch: expected ${originalTexts.length}, got ${parsed.translations.length}`
-      );
-
-      // Pad with original text if missing
-      while (parsed.translations.length < originalTexts.length) {
-        const missingIndex = parsed.translations.length;
-        parsed.translations.push(originalTexts[missingIndex]);
-      }
-
-      // Trim if too many
-      if (parsed.translations.length > originalTexts.length) {
-        parsed.translations = parsed.translations.slice(0, originalTexts.length);
-      }
-    }
+  // Every input needs its own translation - an empty one only for empty source text
+  const missing = originalTexts
+    .map((text, index) => index + 1)
+    .filter((id) => {
+      const translation = byId.get(id);
+      return translation === undefined || (translation.trim() === "" && originalTexts[id - 1].trim() !== "");
+    });
 
-    return { translations: parsed.translations };
-  } catch (error) {
-    // Fallback: return original texts
-    console.error("Translation parsing failed:", error);
-    return { translations: originalTexts };
+  if (missing.length > 0) {
+    throw new TranslationFormatError(
+      `Translation response misaligned: ${items.length} items for ${originalTexts.length} inputs, ` +
+      `missing ids ${missing.join(", ")}`
+    );
   }
+
+  return { translations: originalTexts.map((text, index) => byId.get(index + 1) as string) };
 }
@@ -0,0 +1,90 @@
+import { GlossaryEntry, TerminologyIssue, TextSegment } from "../types";
+import { stripRunTags } from "./docxParserService";
+import { buildWholeWordPattern } from "./termPatternService";
+
+// localStorage key for the firm glossary
+const GLOSSARY_STORAGE_KEY = "firm_glossary";
+
+/**
+ * Loads the glossary from local storage
+ */
+export function loadGlossary(): GlossaryEntry[] {
+  const stored = localStorage.getItem(GLOSSARY_STORAGE_KEY);
+  if (!stored) return [];
+
+  try {
+    const entries = JSON.parse(stored);
+    return Array.isArray(entries) ? entries : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Stores the glossary in local storage
+ */
+export function saveGlossary(entries: GlossaryEntry[]): void {
+  localStorage.setItem(GLOSSARY_STORAGE_KEY, JSON.stringify(entries));
+}
+
+/**
+ * Returns the entries that apply to a language pair. Entries for 'auto' apply to any
+ * source language, and with an auto-detected source every entry for the target applies.
+ */
+export function getGlossaryForLanguages(
+  entries: GlossaryEntry[],
+  sourceLanguage: string,
+  targetLanguage: string
+): GlossaryEntry[] {
+  return entries.filter((entry) =>
+    entry.targetLanguage === targetLanguage &&
+    (sourceLanguage === "auto" || entry.sourceLanguage === "auto" || entry.sourceLanguage === sourceLanguage) &&
+    entry.sourceTerm.trim() !== "" &&
+    entry.targetTerm.trim() !== ""
+  );
+}
+
+/**
+ * Returns the glossary entries whose source term occurs in any of the texts
+ */
+export function findGlossaryTerms(texts: string[], glossary: GlossaryEntry[]): GlossaryEntry[] {
+  const plainTexts = texts.map(stripRunTags);
+  return glossary.filter((entry) => {
+    const pattern = buildTermPattern(entry.sourceTerm);
+    return plainTexts.some((text) => pattern.test(text));
+  });
+}
+
+/**
+ * Flags translated segments whose source contains a glossary term while the translation
+ * doesn't contain the approved target term
+ */
+export function checkTerminology(
+  segments: TextSegment[],
+  translations: Map<string, string>,
+  glossary: GlossaryEntry[]
+): TerminologyIssue[] {
+  const issues: TerminologyIssue[] = [];
+
+  for (const segment of segments) {
+    const translation = translations.get(segment.id);
+    if (translation === undefined || segment.status !== "completed") continue;
+
+    const translatedText = stripRunTags(translation);
+    for (const entry of findGlossaryTerms([segment.text], glossary)) {
+      if (!buildTermPattern(entry.targetTerm).test(translatedText)) {
+        issues.push({ segmentId: segment.id, sourceTerm: entry.sourceTerm, targetTerm: entry.targetTerm });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Builds a case-insensitive pattern for a term as whole words, any whitespace between
+ * them and a few extra letters at the end of each word
+ */
+function buildTermPattern(term: string): RegExp {
+  return buildWholeWordPattern([term], "iu", { inflected: true });
+}
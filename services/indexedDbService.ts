@@ -0,0 +1,63 @@
+// Client-side database for data that outlives a page load
+const DB_NAME = "legal-translator";
+const DB_VERSION = 2;
+
+// Object store names
+export const TRANSLATION_MEMORY_STORE = "translationMemory";
+export const TRANSLATION_JOBS_STORE = "translationJobs";
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens the database, creating or upgrading the object stores on first use.
+ * The connection is shared; a failed open is retried on the next call.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TRANSLATION_MEMORY_STORE)) {
+          const store = db.createObjectStore(TRANSLATION_MEMORY_STORE, { keyPath: "id" });
+          store.createIndex("targetLanguage", "targetLanguage");
+        }
+        if (!db.objectStoreNames.contains(TRANSLATION_JOBS_STORE)) {
+          db.createObjectStore(TRANSLATION_JOBS_STORE, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Wraps an IndexedDB request in a promise
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves when a transaction has committed
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
@@ -0,0 +1,110 @@
+import { buildWholeWordPattern } from "./termPatternService";
+
+// Protected content that is never sent to the model as text, whatever the document
+const BUILT_IN_PATTERNS: RegExp[] = [
+  // Email addresses
+  /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g,
+  // IBANs, with or without spaces: RS35 2600 0560 1001 6113 79
+  /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+  // Amounts with a currency code or symbol on either side: EUR 1.000,00 / 1,000.00 RSD / $5,000
+  /(?:\b(?:EUR|USD|GBP|CHF|RSD|din\.)|[€$£])\s?\d{1,3}(?:[.,\s]\d{3})*(?:[.,]\d{1,2})?(?:\s?(?:EUR|USD|GBP|CHF|RSD|din\.)|\b)/g,
+  /\b\d{1,3}(?:[.,\s]\d{3})*(?:[.,]\d{1,2})?\s?(?:EUR|USD|GBP|CHF|RSD|dinara|din\.|€)(?![\p{L}])/gu,
+  // Case numbers: P. 1234/2021, Gž 12/20, Rev2 123/19, 1:23-cv-04567
+  /\b[A-ZČĆŠĐŽ][a-zčćšđž]{0,3}\d?\.?\s?\d{1,6}\/\d{2,4}\b/gu,
+  /\b\d{1,2}:\d{2}-[a-z]{2}-\d{3,6}\b/g,
+  // Statute citations: gazette issues (br. 72/2009, No. 72/09 and 55/2014) and § references
+  /\b(?:br\.|No\.|broj)\s?\d{1,4}\/\d{2,4}(?:(?:,\s?|\s(?:i|and)\s)\d{1,4}\/\d{2,4})*/g,
+  /§{1,2}\s?\d+[a-z]?(?:\s?\(\d+\))*/g,
+];
+
+// Opaque token that replaces a protected span: ⟦P1⟧, ⟦P2⟧, ...
+const TOKEN_PATTERN = /⟦P(\d+)⟧/g;
+
+/**
+ * Segment text with its protected spans replaced by tokens; tokens[i] is the original
+ * text behind ⟦P{i + 1}⟧
+ */
+export interface MaskedText {
+  text: string;
+  tokens: string[];
+}
+
+/**
+ * Builds the patterns for protected content: the built-in ones plus the excluded terms and
+ * party names of this document, matched as whole words in any letter case
+ */
+export function buildProtectedPatterns(excludedTerms: string[], parties: string[]): RegExp[] {
+  const names = parties
+    // "Acme Ltd (the Supplier)" -> "Acme Ltd"
+    .map((party) => party.replace(/\s*\(.*?\)\s*/g, " ").trim())
+    .filter((name) => name.length >= 3 && /\p{Lu}/u.test(name));
+
+  const literals = [...excludedTerms, ...names]
+    .map((term) => term.trim())
+    .filter(Boolean)
+    // Longer terms first, so "Acme Holding Ltd" wins over "Acme"
+    .sort((a, b) => b.length - a.length)
+    .map((term) => buildWholeWordPattern([term], "giu"));
+
+  return [...literals, ...BUILT_IN_PATTERNS];
+}
+
+/**
+ * Replaces every protected span with its own token. Spans that overlap an earlier match
+ * or a run tag / field placeholder are left alone.
+ */
+export function maskProtectedContent(text: string, patterns: RegExp[]): MaskedText {
+  const spans: Array<{ start: number; end: number }> = [];
+
+  for (const pattern of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (match[0].trim() === "" || /[<>⟦⟧]/.test(match[0])) continue;
+      if (spans.some((span) => start < span.end && end > span.start)) continue;
+      spans.push({ start, end });
+    }
+  }
+
+  spans.sort((a, b) => a.start - b.start);
+
+  const tokens: string[] = [];
+  let masked = "";
+  let position = 0;
+  for (const span of spans) {
+    tokens.push(text.slice(span.start, span.end));
+    masked += `${text.slice(position, span.start)}⟦P${tokens.length}⟧`;
+    position = span.end;
+  }
+  masked += text.slice(position);
+
+  return { text: masked, tokens };
+}
+
+/**
+ * Puts the protected text back in place of its tokens. Throws if a token is missing,
+ * repeated or unknown, so the segment is re-requested instead of written with lost content.
+ */
+export function unmaskProtectedContent(translation: string, tokens: string[]): string {
+  const counts = new Map<number, number>();
+  for (const match of translation.matchAll(TOKEN_PATTERN)) {
+    const index = parseInt(match[1], 10);
+    counts.set(index, (counts.get(index) ?? 0) + 1);
+  }
+
+  for (const [index, count] of counts) {
+    if (index < 1 || index > tokens.length) {
+      throw new Error(`Unknown protected token ⟦P${index}⟧ in translation`);
+    }
+    if (count > 1) {
+      throw new Error(`Protected token ⟦P${index}⟧ appears ${count} times in translation`);
+    }
+  }
+  for (let index = 1; index <= tokens.length; index++) {
+    if (!counts.has(index)) {
+      throw new Error(`Protected token ⟦P${index}⟧ (${tokens[index - 1]}) is missing from translation`);
+    }
+  }
+
+  return translation.replace(TOKEN_PATTERN, (_match, index: string) => tokens[parseInt(index, 10) - 1]);
+}
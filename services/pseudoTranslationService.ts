@@ -0,0 +1,149 @@
+import {
+  BatchTranslationResponse,
+  DocumentPartNotes,
+  LegalDocumentContext,
+  TranslationConfig,
+} from "../types";
+import { BatchTranslationOptions } from "./geminiService";
+import { findGlossaryTerms } from "./glossaryService";
+import { PseudonymizationSession } from "./pseudonymizationService";
+import { buildWholeWordPattern } from "./termPatternService";
+import { TranslationProvider } from "./translationProviderService";
+
+// Letters swapped for accented look-alikes, so translated text stands out while staying readable
+const PSEUDO_LETTERS: Record<string, string> = {
+  a: "á", e: "é", i: "í", o: "ó", u: "ú", c: "ç", n: "ñ",
+  A: "Á", E: "É", I: "Í", O: "Ó", U: "Ú", C: "Ç", N: "Ñ",
+};
+
+// Markup that has to come back unchanged: run tags, field placeholders, protected and surrogate tokens
+const MARKUP_PATTERN = /<\/?r\d+>|<f\d+\/>|⟦[^⟧]*⟧/g;
+
+// Quoted capitalised phrases, the usual shape of a defined term: "Effective Date", “Services”
+const DEFINED_TERM_PATTERN = /["“]([A-Z][\w-]*(?: [A-Z][\w-]*){0,4})["”]/g;
+
+/**
+ * Deterministic local provider: no network access and no API cost. Text is pseudo-translated
+ * (vowels and a few consonants accented) with markup, glossary and excluded terms kept intact,
+ * so the whole parse - translate - rebuild flow can run in tests and demos.
+ */
+export const pseudoTranslationProvider: TranslationProvider = {
+  id: "pseudo",
+
+  async analyzeDocumentContext(
+    sampleText: string,
+    _sourceLanguage: string,
+    _privacy?: PseudonymizationSession,
+    signal?: AbortSignal
+  ): Promise<LegalDocumentContext> {
+    throwIfAborted(signal);
+    return {
+      documentType: "Legal Document",
+      parties: [],
+      formalityLevel: "high",
+      specialTerminology: [],
+      definedTerms: findDefinedTerms(sampleText),
+      summary: "Pseudo-translation - no model was called.",
+    };
+  },
+
+  async summarizeDocumentPart(
+    partText: string,
+    partNumber: number,
+    totalParts: number,
+    _privacy?: PseudonymizationSession,
+    signal?: AbortSignal
+  ): Promise<DocumentPartNotes> {
+    throwIfAborted(signal);
+    return {
+      parties: [],
+      definedTerms: findDefinedTerms(partText),
+      summary: `Part ${partNumber} of ${totalParts}.`,
+    };
+  },
+
+  async translateBatch(
+    texts: string[],
+    config: TranslationConfig,
+    _documentContext: string,
+    options: BatchTranslationOptions = {}
+  ): Promise<BatchTranslationResponse> {
+    throwIfAborted(options.signal);
+
+    // Approved terms go in as their target term, unaccented, so terminology checks pass
+    const replacements = new Map<string, string>();
+    for (const entry of findGlossaryTerms(texts, config.glossary)) {
+      replacements.set(entry.sourceTerm.toLowerCase(), entry.targetTerm);
+    }
+    const keptTerms = [...config.excludedTerms, ...replacements.keys()];
+
+    return {
+      translations: texts.map((text) =>
+        pseudoTranslate(text, keptTerms, (term) => replacements.get(term.toLowerCase()) ?? term)
+      ),
+    };
+  },
+
+  async translateText(
+    text: string,
+    _targetLanguage: string,
+    excludedText?: string,
+    _privacy?: PseudonymizationSession,
+    signal?: AbortSignal
+  ): Promise<string> {
+    throwIfAborted(signal);
+    const excludedTerms = (excludedText || "").split(",").map((term) => term.trim()).filter(Boolean);
+    return pseudoTranslate(text, excludedTerms, (term) => term);
+  },
+};
+
+/**
+ * Accents the letters of the text, leaving markup alone and passing the given terms
+ * (whole words, any letter case) through replaceTerm
+ */
+function pseudoTranslate(text: string, terms: string[], replaceTerm: (term: string) => string): string {
+  const patternTerms = terms
+    .filter((term) => term.trim())
+    // Longer terms first, so "Effective Date" wins over "Date"
+    .sort((a, b) => b.length - a.length);
+  const termPattern = patternTerms.length > 0 ? buildWholeWordPattern(patternTerms, "giu") : null;
+
+  const spans: Array<{ start: number; end: number; replacement: string }> = [];
+  for (const match of text.matchAll(MARKUP_PATTERN)) {
+    spans.push({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length, replacement: match[0] });
+  }
+  if (termPattern) {
+    for (const match of text.matchAll(termPattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (spans.some((span) => start < span.end && end > span.start)) continue;
+      spans.push({ start, end, replacement: replaceTerm(match[0]) });
+    }
+  }
+  spans.sort((a, b) => a.start - b.start);
+
+  const accent = (plain: string) => plain.replace(/[aeioucnAEIOUCN]/g, (letter) => PSEUDO_LETTERS[letter]);
+  let result = "";
+  let position = 0;
+  for (const span of spans) {
+    result += accent(text.slice(position, span.start)) + span.replacement;
+    position = span.end;
+  }
+  return result + accent(text.slice(position));
+}
+
+/**
+ * Collects quoted capitalised phrases as defined terms, in order of first appearance
+ */
+function findDefinedTerms(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(DEFINED_TERM_PATTERN), (match) => match[1])));
+}
+
+/**
+ * Rejects like an aborted fetch would
+ */
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new DOMException("Translation cancelled", "AbortError");
+  }
+}
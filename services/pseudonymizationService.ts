@@ -0,0 +1,228 @@
+import { PseudonymEntry, PseudonymizationConfig } from "../types";
+import { buildWholeWordPattern } from "./termPatternService";
+
+/**
+ * A kind of personal data and how to find it
+ */
+interface PseudonymRule {
+  category: string;
+  pattern: RegExp;
+  isValid?: (match: string) => boolean;
+  canonical?: string; // Configured name that every matching form maps to
+}
+
+/**
+ * Surrogates for one document: the same personal data gets the same surrogate in every
+ * request, and only this browser session knows the originals
+ */
+export interface PseudonymizationSession {
+  rules: PseudonymRule[];
+  surrogates: Map<string, string>; // category + normalized original -> surrogate
+  entries: Map<string, PseudonymEntry>; // surrogate -> log entry
+  counters: Map<string, number>; // category -> surrogates issued
+}
+
+// Surrogate token: ⟦PERSON_1⟧, ⟦JMBG_2⟧, ...
+const SURROGATE_PATTERN = /⟦([A-Z_]+)_(\d+)⟧/g;
+
+// Put in front of prompts that contain surrogates
+const SURROGATE_NOTE =
+  "Tokens like ⟦PERSON_1⟧ or ⟦JMBG_1⟧ replace confidential data. Copy each token unchanged wherever the data it stands for belongs.";
+
+const BUILT_IN_RULES: PseudonymRule[] = [
+  { category: "EMAIL", pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  { category: "IBAN", pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g },
+  // Serbian bank account: 160-0000000123456-78
+  { category: "ACCOUNT", pattern: /\b\d{3}-\d{1,13}-\d{2}\b/g },
+  // Personal identification number (JMBG): 13 digits with a mod 11 check digit
+  { category: "JMBG", pattern: /\b\d{13}\b/g, isValid: isValidJmbg },
+  // Tax identification number (PIB): 9 digits, ISO 7064 MOD 11,10 check digit
+  { category: "PIB", pattern: /\b\d{9}\b/g, isValid: isValidPib },
+  // Company registration number (matični broj): 8 digits with a mod 11 check digit
+  { category: "MB", pattern: /\b\d{8}\b/g, isValid: isValidMaticniBroj },
+  // Phone numbers: +381 11 123 4567, 011/123-4567, 064 123 4567
+  { category: "PHONE", pattern: /(?:\+381|\b00381|\b0)\s?\(?\d{2,3}\)?[\s/-]?\d{3,4}[\s-]?\d{3,4}\b/g },
+];
+
+/**
+ * Starts a session with the built-in rules, the configured names (matched in inflected forms too)
+ * and the configured extra patterns. Patterns that are not valid regular expressions are skipped.
+ * Entries saved from an earlier session of the same document are issued again as they were.
+ */
+export function createPseudonymizationSession(
+  config: PseudonymizationConfig,
+  savedEntries: PseudonymEntry[] = []
+): PseudonymizationSession {
+  const nameRules: PseudonymRule[] = config.names
+    .map((name) => name.trim())
+    .filter(Boolean)
+    // Longer names first, so "Petar Petrović" wins over "Petar"
+    .sort((a, b) => b.length - a.length)
+    .map((name) => ({ category: "PERSON", pattern: buildNamePattern(name), canonical: name }));
+
+  const customRules: PseudonymRule[] = [];
+  for (const source of config.customPatterns.map((pattern) => pattern.trim()).filter(Boolean)) {
+    try {
+      customRules.push({ category: "CUSTOM", pattern: new RegExp(source, "gu") });
+    } catch (error) {
+      console.warn(`Skipping invalid pseudonymisation pattern ${source}:`, error);
+    }
+  }
+
+  const session: PseudonymizationSession = {
+    rules: [...nameRules, ...customRules, ...BUILT_IN_RULES],
+    surrogates: new Map(),
+    entries: new Map(),
+    counters: new Map(),
+  };
+
+  for (const entry of savedEntries) {
+    const number = Number(entry.surrogate.match(/_(\d+)⟧$/)?.[1] ?? 0);
+    session.surrogates.set(getSurrogateKey(entry.category, entry.original), entry.surrogate);
+    session.entries.set(entry.surrogate, { ...entry });
+    session.counters.set(entry.category, Math.max(session.counters.get(entry.category) ?? 0, number));
+  }
+
+  return session;
+}
+
+/**
+ * Replaces the personal data in a prompt with surrogates and, if anything was replaced,
+ * tells the model to keep them
+ */
+export function pseudonymizePrompt(session: PseudonymizationSession, prompt: string): string {
+  const pseudonymized = pseudonymizeText(session, prompt);
+  return pseudonymized === prompt ? prompt : `${SURROGATE_NOTE}\n\n${pseudonymized}`;
+}
+
+/**
+ * Replaces every match of the session's rules with the surrogate for that data
+ */
+export function pseudonymizeText(session: PseudonymizationSession, text: string): string {
+  const spans: Array<{ start: number; end: number; surrogate: string }> = [];
+
+  for (const rule of session.rules) {
+    for (const match of text.matchAll(rule.pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (match[0].trim() === "" || /[⟦⟧]/.test(match[0])) continue;
+      if (rule.isValid && !rule.isValid(match[0])) continue;
+      if (spans.some((span) => start < span.end && end > span.start)) continue;
+      spans.push({ start, end, surrogate: getSurrogate(session, rule, match[0]) });
+    }
+  }
+
+  spans.sort((a, b) => a.start - b.start);
+
+  let result = "";
+  let position = 0;
+  for (const span of spans) {
+    result += `${text.slice(position, span.start)}${span.surrogate}`;
+    position = span.end;
+  }
+  return result + text.slice(position);
+}
+
+/**
+ * Puts the original data back in place of its surrogates. With escapeJson, the originals
+ * are escaped for use inside JSON strings (structured responses). Unknown tokens are left as they are.
+ */
+export function restorePseudonyms(
+  session: PseudonymizationSession,
+  text: string,
+  escapeJson: boolean = false
+): string {
+  return text.replace(SURROGATE_PATTERN, (surrogate) => {
+    const entry = session.entries.get(surrogate);
+    if (!entry) return surrogate;
+    return escapeJson ? JSON.stringify(entry.original).slice(1, -1) : entry.original;
+  });
+}
+
+/**
+ * Returns what was pseudonymised so far, for the local log
+ */
+export function getPseudonymizationLog(session: PseudonymizationSession): PseudonymEntry[] {
+  return Array.from(session.entries.values());
+}
+
+/**
+ * Returns the surrogate for a match, issuing a new one the first time the data is seen
+ */
+function getSurrogate(session: PseudonymizationSession, rule: PseudonymRule, match: string): string {
+  const original = rule.canonical ?? match;
+  const key = getSurrogateKey(rule.category, original);
+
+  let surrogate = session.surrogates.get(key);
+  if (!surrogate) {
+    const count = (session.counters.get(rule.category) ?? 0) + 1;
+    session.counters.set(rule.category, count);
+    surrogate = `⟦${rule.category}_${count}⟧`;
+    session.surrogates.set(key, surrogate);
+    session.entries.set(surrogate, { surrogate, original, category: rule.category, occurrences: 0 });
+  }
+
+  session.entries.get(surrogate)!.occurrences++;
+  return surrogate;
+}
+
+/**
+ * Key of the data a surrogate stands for: names and free text ignore case and spacing,
+ * numbers ignore separators
+ */
+function getSurrogateKey(category: string, original: string): string {
+  const normalized = category === "PERSON" || category === "CUSTOM" || category === "EMAIL"
+    ? original.toLowerCase().replace(/\s+/g, " ")
+    : original.replace(/[\s()/-]/g, "");
+  return `${category}:${normalized}`;
+}
+
+/**
+ * Builds a case-insensitive whole-word pattern for a name, allowing a few extra letters
+ * at the end of each word and a dropped fleeting "a" (Petar -> Petra, Petru)
+ */
+function buildNamePattern(name: string): RegExp {
+  return buildWholeWordPattern([name], "giu", {
+    inflected: true,
+    adjustWord: (word) => word.replace(/a([bcčćdđfghjklmnprsštvzž])$/iu, "a?$1"),
+  });
+}
+
+/**
+ * JMBG: DDMMYYYRRBBBK, K = 11 - (weighted sum mod 11), 0 when that gives 10 or 11
+ */
+function isValidJmbg(value: string): boolean {
+  const digits = value.split("").map(Number);
+  const day = digits[0] * 10 + digits[1];
+  const month = digits[2] * 10 + digits[3];
+  if (day < 1 || day > 31 || month < 1 || month > 12) return false;
+
+  const weights = [7, 6, 5, 4, 3, 2, 7, 6, 5, 4, 3, 2];
+  const sum = weights.reduce((total, weight, i) => total + weight * digits[i], 0);
+  const check = 11 - (sum % 11);
+  return (check > 9 ? 0 : check) === digits[12];
+}
+
+/**
+ * PIB: ISO 7064 MOD 11,10 check digit
+ */
+function isValidPib(value: string): boolean {
+  const digits = value.split("").map(Number);
+  let product = 10;
+  for (let i = 0; i < 8; i++) {
+    let sum = (digits[i] + product) % 10;
+    if (sum === 0) sum = 10;
+    product = (sum * 2) % 11;
+  }
+  return (11 - product) % 10 === digits[8];
+}
+
+/**
+ * Matični broj: weights 8..2, K = 11 - (sum mod 11), 0 when that gives 10 or 11
+ */
+function isValidMaticniBroj(value: string): boolean {
+  const digits = value.split("").map(Number);
+  const sum = digits.slice(0, 7).reduce((total, digit, i) => total + digit * (8 - i), 0);
+  const check = 11 - (sum % 11);
+  return (check > 9 ? 0 : check) === digits[7];
+}
@@ -0,0 +1,207 @@
+import { Schema, Type } from "@google/genai";
+import { DocumentPartNotes, LegalDocumentContext } from "../types";
+
+/**
+ * Translation of one input item, matched back to the input by id
+ */
+export interface KeyedTranslation {
+  id: number;
+  text: string;
+}
+
+/**
+ * Response schema for batch translation: {"translations":[{"id":1,"text":"..."}]}
+ */
+export const BATCH_TRANSLATION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    translations: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.INTEGER, description: "Id of the input item" },
+          text: { type: Type.STRING, description: "Translation of the input item's text" },
+        },
+        required: ["id", "text"],
+        propertyOrdering: ["id", "text"],
+      },
+    },
+  },
+  required: ["translations"],
+};
+
+/**
+ * Response schema for document-level context analysis, mirroring LegalDocumentContext
+ */
+export const DOCUMENT_CONTEXT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    documentType: {
+      type: Type.STRING,
+      description: "Specific type, e.g. Service Agreement, NDA, Employment Contract, Lease Agreement, Power of Attorney",
+    },
+    parties: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Every party to the document, by full name with its role if stated",
+    },
+    jurisdiction: {
+      type: Type.STRING,
+      nullable: true,
+      description: "Governing law or jurisdiction if mentioned",
+    },
+    formalityLevel: {
+      type: Type.STRING,
+      enum: ["high", "medium", "standard"],
+    },
+    specialTerminology: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Key legal terms that need precise translation",
+    },
+    definedTerms: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Terms the document defines (e.g. \"Services\", \"Effective Date\"), as written in the document",
+    },
+    summary: {
+      type: Type.STRING,
+      description: "One sentence describing the document's purpose",
+    },
+  },
+  required: ["documentType", "parties", "formalityLevel", "specialTerminology", "definedTerms", "summary"],
+  propertyOrdering: [
+    "documentType", "parties", "jurisdiction", "formalityLevel", "specialTerminology", "definedTerms", "summary",
+  ],
+};
+
+/**
+ * Response schema for the notes taken from one part of a long document (map step of the context pass)
+ */
+export const DOCUMENT_PART_NOTES_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    parties: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Parties named in this part, by full name with their role if stated",
+    },
+    definedTerms: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Terms defined in this part, as written in the document",
+    },
+    jurisdiction: {
+      type: Type.STRING,
+      nullable: true,
+      description: "Governing law or jurisdiction if this part states it",
+    },
+    summary: {
+      type: Type.STRING,
+      description: "Two or three sentences on what this part covers",
+    },
+  },
+  required: ["parties", "definedTerms", "summary"],
+  propertyOrdering: ["parties", "definedTerms", "jurisdiction", "summary"],
+};
+
+/**
+ * Parses a JSON response and checks it against the schema it was requested with.
+ * Throws with the path of the first mismatch, e.g. "translations[3].text: expected string".
+ */
+export function parseStructuredResponse<T>(response: string, schema: Schema): T {
+  let value: unknown;
+  try {
+    value = JSON.parse(response);
+  } catch (error) {
+    throw new Error(`Invalid JSON in response: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const problem = validateAgainstSchema(value, schema, "response");
+  if (problem) {
+    throw new Error(`Response does not match schema: ${problem}`);
+  }
+
+  return value as T;
+}
+
+/**
+ * Checks a value against the subset of the schema format used here (types, required
+ * properties, enums, nullable). Returns a description of the first mismatch, or null.
+ */
+function validateAgainstSchema(value: unknown, schema: Schema, path: string): string | null {
+  if (value === null || value === undefined) {
+    return schema.nullable ? null : `${path}: value is missing`;
+  }
+
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (typeof value !== "object" || Array.isArray(value)) {
+        return `${path}: expected object`;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (!(key in record)) return `${path}.${key}: required property is missing`;
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (!(key in record)) continue;
+        const problem = validateAgainstSchema(record[key], propertySchema, `${path}.${key}`);
+        if (problem) return problem;
+      }
+      return null;
+    }
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) {
+        return `${path}: expected array`;
+      }
+      for (let i = 0; i < value.length; i++) {
+        const problem = schema.items ? validateAgainstSchema(value[i], schema.items, `${path}[${i}]`) : null;
+        if (problem) return problem;
+      }
+      return null;
+    }
+    case Type.STRING:
+      if (typeof value !== "string") return `${path}: expected string`;
+      if (schema.enum && !schema.enum.includes(value)) {
+        return `${path}: expected one of ${schema.enum.join(", ")}`;
+      }
+      return null;
+    case Type.INTEGER:
+      return Number.isInteger(value) ? null : `${path}: expected integer`;
+    case Type.NUMBER:
+      return typeof value === "number" ? null : `${path}: expected number`;
+    case Type.BOOLEAN:
+      return typeof value === "boolean" ? null : `${path}: expected boolean`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parses a document context analysis response into LegalDocumentContext
+ */
+export function parseDocumentContext(response: string): LegalDocumentContext {
+  const parsed = parseStructuredResponse<LegalDocumentContext & { jurisdiction?: string | null }>(
+    response,
+    DOCUMENT_CONTEXT_SCHEMA
+  );
+  return {
+    ...parsed,
+    jurisdiction: parsed.jurisdiction || undefined,
+  };
+}
+
+/**
+ * Parses the notes for one part of a long document into DocumentPartNotes
+ */
+export function parseDocumentPartNotes(response: string): DocumentPartNotes {
+  const parsed = parseStructuredResponse<DocumentPartNotes & { jurisdiction?: string | null }>(
+    response,
+    DOCUMENT_PART_NOTES_SCHEMA
+  );
+  return {
+    ...parsed,
+    jurisdiction: parsed.jurisdiction || undefined,
+  };
+}
@@ -0,0 +1,143 @@
+import { extractParagraphText } from "./docxParserService";
+
+// WordprocessingML namespace
+const W_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+
+// Settings that follow w:updateFields in the CT_Settings sequence
+const SETTINGS_AFTER_UPDATE_FIELDS = [
+  "hdrShapeDefaults",
+  "footnotePr",
+  "endnotePr",
+  "compat",
+  "docVars",
+  "rsids",
+  "mathPr",
+  "attachedSchema",
+  "themeFontLang",
+  "clrSchemeMapping",
+  "doNotIncludeSubdocsInStats",
+  "doNotAutoCompressPictures",
+  "forceUpgrade",
+  "captions",
+  "readModeInkLockDown",
+  "smartTagType",
+  "schemaLibrary",
+  "shapeDefaults",
+  "doNotEmbedSmartTags",
+  "decimalSymbol",
+  "listSeparator",
+];
+
+/**
+ * Checks whether the document body contains a TOC field
+ */
+export function hasTableOfContents(doc: Document): boolean {
+  const instructions = [
+    ...Array.from(doc.getElementsByTagNameNS(W_NS, "instrText")).map((el) => el.textContent || ""),
+    ...Array.from(doc.getElementsByTagNameNS(W_NS, "fldSimple")).map((el) => el.getAttribute("w:instr") || ""),
+  ];
+  return instructions.some((instruction) => /^\s*TOC\b/.test(instruction));
+}
+
+/**
+ * Rewrites the cached text of TOC entries from the (translated) headings they link to.
+ * Entries are hyperlinks to the heading's _Toc bookmark; only the heading text is replaced,
+ * numbering, tab leader and the PAGEREF page number stay as they are.
+ */
+export function refreshTableOfContents(doc: Document): void {
+  // _Toc bookmark name -> heading paragraph
+  const headings = new Map<string, Element>();
+  for (const bookmark of Array.from(doc.getElementsByTagNameNS(W_NS, "bookmarkStart"))) {
+    const name = bookmark.getAttribute("w:name") || "";
+    const paragraph = findParagraph(bookmark);
+    if (name.startsWith("_Toc") && paragraph) {
+      headings.set(name, paragraph);
+    }
+  }
+
+  for (const hyperlink of Array.from(doc.getElementsByTagNameNS(W_NS, "hyperlink"))) {
+    const heading = headings.get(hyperlink.getAttribute("w:anchor") || "");
+    if (!heading) continue;
+
+    const textElements = getEntryTextElements(hyperlink);
+    if (textElements.length === 0) continue;
+
+    textElements[0].textContent = extractParagraphText(heading).trim();
+    textElements.slice(1).forEach((textEl) => (textEl.textContent = ""));
+  }
+}
+
+/**
+ * Returns the <w:t> elements holding a TOC entry's heading text: everything before the PAGEREF
+ * field and its tab leader, after the tab that follows the heading number (if any)
+ */
+function getEntryTextElements(hyperlink: Element): Element[] {
+  const items: Element[] = [];
+
+  for (const run of Array.from(hyperlink.getElementsByTagNameNS(W_NS, "r"))) {
+    if (isDeleted(run, hyperlink)) continue;
+    if (run.getElementsByTagNameNS(W_NS, "fldChar").length > 0) break;
+
+    for (const child of Array.from(run.children)) {
+      if (child.localName === "t" || child.localName === "tab") {
+        items.push(child);
+      }
+    }
+  }
+
+  // Drop the tab leader in front of the page number
+  while (items.length > 0 && items[items.length - 1].localName === "tab") {
+    items.pop();
+  }
+
+  const lastTab = items.map((item) => item.localName).lastIndexOf("tab");
+  return items.slice(lastTab + 1).filter((item) => item.localName === "t");
+}
+
+/**
+ * Finds the paragraph an element belongs to
+ */
+function findParagraph(element: Element): Element | null {
+  let node = element.parentElement;
+  while (node) {
+    if (node.namespaceURI === W_NS && node.localName === "p") return node;
+    node = node.parentElement;
+  }
+  return null;
+}
+
+/**
+ * Checks whether a run sits in a w:del wrapper below the root
+ */
+function isDeleted(run: Element, root: Element): boolean {
+  let node = run.parentElement;
+  while (node && node !== root) {
+    if (node.localName === "del" || node.localName === "moveFrom") return true;
+    node = node.parentElement;
+  }
+  return false;
+}
+
+/**
+ * Sets <w:updateFields w:val="true"/> in settings.xml, so Word offers to refresh
+ * the TOC and other fields when the document is opened
+ */
+export function requestFieldUpdate(settings: Document): void {
+  const root = settings.documentElement;
+  if (!root) return;
+
+  const existing = Array.from(root.children).find((child) => child.localName === "updateFields");
+  if (existing) {
+    existing.setAttribute("w:val", "true");
+    return;
+  }
+
+  const updateFields = settings.createElementNS(W_NS, "w:updateFields");
+  updateFields.setAttribute("w:val", "true");
+
+  // Keep the schema order - Word rejects settings out of sequence
+  const next = Array.from(root.children).find((child) =>
+    SETTINGS_AFTER_UPDATE_FIELDS.includes(child.localName)
+  );
+  root.insertBefore(updateFields, next || null);
+}
@@ -0,0 +1,37 @@
+// Letters a word may gain and still match a term, so inflected forms count
+// ("ugovora o zakupu" for "ugovor o zakupu", "Petra Petrovića" for "Petar Petrović")
+const MAX_INFLECTION_LETTERS = 3;
+
+export interface WholeWordPatternOptions {
+  inflected?: boolean; // Allow a few extra letters at the end of each word
+  adjustWord?: (escapedWord: string) => string; // Rewrites each escaped word, e.g. for stem changes
+}
+
+/**
+ * Escapes the characters that have a meaning in a regular expression
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Builds a pattern matching any of the terms as whole words, with any whitespace between
+ * the words of a term. List longer terms first when one term can contain another.
+ */
+export function buildWholeWordPattern(
+  terms: string[],
+  flags: string,
+  options: WholeWordPatternOptions = {}
+): RegExp {
+  const alternatives = terms.map((term) =>
+    term
+      .trim()
+      .split(/\s+/)
+      .map((word) => {
+        const escaped = options.adjustWord ? options.adjustWord(escapeRegExp(word)) : escapeRegExp(word);
+        return options.inflected ? `${escaped}\\p{L}{0,${MAX_INFLECTION_LETTERS}}` : escaped;
+      })
+      .join("\\s+")
+  );
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join("|")})(?![\\p{L}\\p{N}])`, flags);
+}
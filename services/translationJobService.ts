@@ -0,0 +1,79 @@
+import { DocumentSettings, TranslationConfig, TranslationJob } from "../types";
+import {
+  openDatabase,
+  promisifyRequest,
+  transactionDone,
+  TRANSLATION_JOBS_STORE,
+} from "./indexedDbService";
+
+/**
+ * Creates a job for an uploaded DOCX and stores it. If IndexedDB is unavailable the job
+ * still runs, it just can't be resumed.
+ */
+export async function createTranslationJob(
+  id: string,
+  file: File,
+  settings: DocumentSettings,
+  config: TranslationConfig
+): Promise<TranslationJob> {
+  const job: TranslationJob = {
+    id,
+    fileName: file.name,
+    file,
+    settings,
+    config,
+    segments: [],
+    translations: {},
+    origins: {},
+    batches: [],
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  };
+  await saveTranslationJob(job);
+  return job;
+}
+
+/**
+ * Stores the current state of a job
+ */
+export async function saveTranslationJob(job: TranslationJob): Promise<void> {
+  job.updatedAt = Date.now();
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(TRANSLATION_JOBS_STORE, "readwrite");
+    transaction.objectStore(TRANSLATION_JOBS_STORE).put(job);
+    await transactionDone(transaction);
+  } catch (error) {
+    console.warn(`Failed to save translation job ${job.id}:`, error);
+  }
+}
+
+/**
+ * Returns the stored jobs - the ones that were interrupted before they completed -
+ * most recent first
+ */
+export async function listTranslationJobs(): Promise<TranslationJob[]> {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(TRANSLATION_JOBS_STORE, "readonly").objectStore(TRANSLATION_JOBS_STORE);
+    const jobs = await promisifyRequest(store.getAll() as IDBRequest<TranslationJob[]>);
+    return jobs.sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (error) {
+    console.warn("Failed to load translation jobs:", error);
+    return [];
+  }
+}
+
+/**
+ * Removes a job once it completed or was cancelled
+ */
+export async function deleteTranslationJob(id: string): Promise<void> {
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(TRANSLATION_JOBS_STORE, "readwrite");
+    transaction.objectStore(TRANSLATION_JOBS_STORE).delete(id);
+    await transactionDone(transaction);
+  } catch (error) {
+    console.warn(`Failed to delete translation job ${id}:`, error);
+  }
+}
@@ -0,0 +1,172 @@
+import { TranslationMemoryEntry, TranslationMemoryMatch } from "../types";
+import { stripRunTags } from "./docxParserService";
+import {
+  openDatabase,
+  promisifyRequest,
+  transactionDone,
+  TRANSLATION_MEMORY_STORE,
+} from "./indexedDbService";
+
+/**
+ * Translation memory entries for one language pair, indexed for lookups
+ */
+export interface TranslationMemory {
+  exact: Map<string, TranslationMemoryEntry>; // normalized source text -> entry
+  entries: Array<{ entry: TranslationMemoryEntry; words: string[] }>;
+}
+
+/**
+ * Loads the translation memory for a language pair. With an auto-detected source, entries
+ * of every source language for the target are used - identical text is the same language.
+ * Returns an empty memory if IndexedDB is unavailable.
+ */
+export async function loadTranslationMemory(
+  sourceLanguage: string,
+  targetLanguage: string
+): Promise<TranslationMemory> {
+  const memory: TranslationMemory = { exact: new Map(), entries: [] };
+
+  let stored: TranslationMemoryEntry[];
+  try {
+    const db = await openDatabase();
+    const index = db
+      .transaction(TRANSLATION_MEMORY_STORE, "readonly")
+      .objectStore(TRANSLATION_MEMORY_STORE)
+      .index("targetLanguage");
+    stored = await promisifyRequest(index.getAll(targetLanguage) as IDBRequest<TranslationMemoryEntry[]>);
+  } catch (error) {
+    console.warn("Translation memory unavailable:", error);
+    return memory;
+  }
+
+  for (const entry of stored) {
+    if (sourceLanguage !== "auto" && entry.sourceLanguage !== "auto" && entry.sourceLanguage !== sourceLanguage) {
+      continue;
+    }
+    const key = normalizeText(entry.sourceText);
+    const existing = memory.exact.get(key);
+    if (!existing || existing.updatedAt < entry.updatedAt) {
+      memory.exact.set(key, entry);
+    }
+  }
+
+  memory.entries = Array.from(memory.exact.values()).map((entry) => ({
+    entry,
+    words: tokenize(stripRunTags(entry.sourceText)),
+  }));
+  return memory;
+}
+
+/**
+ * Returns the reviewed translation of exactly this (run-tagged) text, if any
+ */
+export function findExactMatch(memory: TranslationMemory, text: string): TranslationMemoryEntry | undefined {
+  const entry = memory.exact.get(normalizeText(text));
+  return entry?.reviewed ? entry : undefined;
+}
+
+/**
+ * Returns the most similar stored segment at or above the threshold, compared word by word
+ * on the plain text. Reviewed exact matches are left to findExactMatch; unreviewed ones are
+ * only ever references.
+ */
+export function findFuzzyMatch(
+  memory: TranslationMemory,
+  text: string,
+  threshold: number
+): TranslationMemoryMatch | undefined {
+  const words = tokenize(stripRunTags(text));
+  if (words.length === 0) return undefined;
+
+  let best: TranslationMemoryMatch | undefined;
+  for (const { entry, words: entryWords } of memory.entries) {
+    // Cheap bound first: the length difference alone rules most entries out
+    const longer = Math.max(words.length, entryWords.length);
+    if (1 - Math.abs(words.length - entryWords.length) / longer < threshold) continue;
+
+    const similarity = 1 - wordEditDistance(words, entryWords) / longer;
+    if (similarity >= threshold && (similarity < 1 || !entry.reviewed) && (!best || similarity > best.similarity)) {
+      best = {
+        sourceText: stripRunTags(entry.sourceText),
+        targetText: stripRunTags(entry.targetText),
+        similarity,
+      };
+    }
+  }
+  return best;
+}
+
+/**
+ * Stores translations for a language pair, replacing earlier translations of the same text.
+ * Model output is stored unreviewed and never replaces an entry the user approved;
+ * approved translations are stored as reviewed.
+ */
+export async function saveToTranslationMemory(
+  pairs: Array<{ sourceText: string; targetText: string }>,
+  sourceLanguage: string,
+  targetLanguage: string,
+  reviewed: boolean = false
+): Promise<void> {
+  if (pairs.length === 0) return;
+
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(TRANSLATION_MEMORY_STORE, "readwrite");
+    const store = transaction.objectStore(TRANSLATION_MEMORY_STORE);
+    const now = Date.now();
+
+    for (const { sourceText, targetText } of pairs) {
+      const entry: TranslationMemoryEntry = {
+        id: `${sourceLanguage}|${targetLanguage}|${normalizeText(sourceText)}`,
+        sourceLanguage,
+        targetLanguage,
+        sourceText,
+        targetText,
+        reviewed,
+        updatedAt: now,
+      };
+      const existing = store.get(entry.id);
+      existing.onsuccess = () => {
+        if (!reviewed && (existing.result as TranslationMemoryEntry | undefined)?.reviewed) return;
+        store.put(entry);
+      };
+    }
+
+    await transactionDone(transaction);
+  } catch (error) {
+    console.warn("Failed to save to translation memory:", error);
+  }
+}
+
+/**
+ * Collapses whitespace so spacing differences don't prevent an exact match
+ */
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Splits plain text into lowercase words and punctuation marks
+ */
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu) || [];
+}
+
+/**
+ * Levenshtein distance over words
+ */
+function wordEditDistance(a: string[], b: string[]): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
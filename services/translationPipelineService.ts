@@ -9,13 +9,36 @@ import {
   ProgressCallbacks,
   LegalSection,
   LegalDocumentContext,
+  TranslationMemoryMatch,
+  TranslationMemoryReview,
+  TranslationJob,
 } from "../types";
 import {
-  analyzeLegalDocumentContext,
   analyzeSectionContext,
-  translateBatchLegalText
+  isRetryableError,
+  isAbortError,
+  GeminiApiError,
+  TranslationFormatError,
 } from "./geminiService";
+import { buildDocumentContext, formatDocumentContext } from "./documentContextService";
 import { rebuildDocx } from "./docxRebuilderService";
+import { buildBilingualDocx } from "./bilingualDocxService";
+import { stripRunTags, verifyRunTags } from "./docxParserService";
+import { checkTerminology } from "./glossaryService";
+import {
+  findExactMatch,
+  findFuzzyMatch,
+  loadTranslationMemory,
+  saveToTranslationMemory,
+} from "./translationMemoryService";
+import {
+  createPseudonymizationSession,
+  getPseudonymizationLog,
+  PseudonymizationSession,
+} from "./pseudonymizationService";
+import { buildProtectedPatterns, maskProtectedContent, unmaskProtectedContent } from "./maskingService";
+import { saveTranslationJob } from "./translationJobService";
+import { getTranslationProvider, TranslationProvider } from "./translationProviderService";
 
 // Default configuration - optimized for speed (from original spec)
 export const DEFAULT_CONFIG: TranslationConfig = {
@@ -28,7 +51,14 @@ export const DEFAULT_CONFIG: TranslationConfig = {
   translateHeaders: true,
   translateFooters: true,
   translateFootnotes: true,
+  translateComments: false,
+  outputFormat: "translated",
+  glossary: [],
   modelTemperature: 0.4,      // Original temperature
+  useTranslationMemory: true,
+  memoryFuzzyThreshold: 0.75,
+  maxRetries: 3,
+  retryBaseDelayMs: 1000,
 };
 
 /**
@@ -48,7 +78,16 @@ function filterSegmentsBySettings(
     if (location === 'footer' && !config.translateFooters) {
       return false;
     }
-    if (location === 'footnote' && !config.translateFootnotes) {
+    if ((location === 'footnote' || location === 'endnote') && !config.translateFootnotes) {
+      return false;
+    }
+    if (location === 'comment' && !config.translateComments) {
+      return false;
+    }
+
+    // Bilingual output only pairs up body paragraphs; notes, comments, headers, footers
+    // and properties go out as they were, so translating them would be wasted
+    if (config.outputFormat === "bilingual" && segment.xmlPath !== "word/document.xml") {
       return false;
     }
 
@@ -57,13 +96,16 @@ function filterSegmentsBySettings(
 }
 
 /**
- * Main entry point - orchestrates the entire translation pipeline with legal context
+ * Main entry point - orchestrates the entire translation pipeline with legal context.
+ * With a job, progress is saved after every batch group; a job that already has progress
+ * is resumed, translating only the segments it doesn't have yet.
  */
 export async function runTranslationPipeline(
   parsedDocx: ParsedLegalDocx,
   config: TranslationConfig,
   callbacks: ProgressCallbacks,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  job?: TranslationJob
 ): Promise<TranslationResult> {
   const startTime = Date.now();
   const errors: TranslationError[] = [];
@@ -81,6 +123,7 @@ export async function runTranslationPipeline(
       totalSegments: 0,
       successfulSegments: 0,
       failedSegments: 0,
+      skippedSegments: 0,
       errors: [
         {
           message: "No translatable text found in document.",
@@ -88,6 +131,12 @@ export async function runTranslationPipeline(
           recoverable: false,
         },
       ],
+      memorySegments: 0,
+      modelSegments: 0,
+      reusedSegments: 0,
+      terminologyIssues: [],
+      pseudonymizationLog: [],
+      cancelled: false,
       processingTimeMs: Date.now() - startTime,
     };
   }
@@ -97,6 +146,14 @@ export async function runTranslationPipeline(
     throw new DOMException("Translation cancelled", "AbortError");
   }
 
+  const provider = getTranslationProvider(config.provider);
+
+  // Personal data gets the same surrogate in every request for this document, including the
+  // requests of earlier runs of a resumed job
+  const privacy = config.pseudonymization
+    ? createPseudonymizationSession(config.pseudonymization, job?.pseudonyms)
+    : undefined;
+
   // Phase 1: Analyze document-level legal context
   callbacks.onProgress({
     phase: "analyzing",
@@ -104,153 +161,295 @@ export async function runTranslationPipeline(
     totalSegments: segments.length,
     currentBatch: 0,
     totalBatches: 0,
+    reusedSegments: 0,
     message: "Analyzing legal document structure...",
   });
 
   let documentContext: LegalDocumentContext;
-  try {
-    // Sample fewer segments for faster context analysis
-    const sampleText = segments
-      .slice(0, 15)
-      .map((s) => s.text)
-      .join("\n");
-    documentContext = await analyzeLegalDocumentContext(sampleText, config.sourceLanguage);
+  if (job?.documentContext) {
+    documentContext = job.documentContext;
+    console.log("📋 Resuming with the saved document context");
+  } else try {
+    // Whole document for short ones, key sections plus per-part notes for long ones
+    documentContext = await buildDocumentContext(
+      provider,
+      parsedDocx.sections,
+      config.sourceLanguage,
+      parsedDocx.metadata.documentTitle,
+      privacy,
+      signal
+    );
     console.log("📋 Document context:", documentContext);
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.warn("Context analysis failed, using fallback");
     documentContext = {
       documentType: "Legal Document",
       parties: [],
       formalityLevel: "high",
       specialTerminology: [],
+      definedTerms: [],
       summary: "Professional legal document requiring formal translation.",
     };
   }
 
+  if (job && !job.documentContext) {
+    job.documentContext = documentContext;
+    job.segments = segments;
+    job.pseudonyms = privacy ? getPseudonymizationLog(privacy) : undefined;
+    await saveTranslationJob(job);
+  }
+
   // Check for abort
   if (signal?.aborted) {
     throw new DOMException("Translation cancelled", "AbortError");
   }
 
-  // Phase 2: Create batches (simple batching from original spec)
-  const documentContextStr = `${documentContext.documentType}: ${documentContext.summary}. Formality: ${documentContext.formalityLevel}. Key terms: ${documentContext.specialTerminology.join(", ")}.`;
-  const batches = createBatches(segments, config);
-  const totalBatches = batches.length;
+  // Phase 2: Create batches within section boundaries, each with its section's context
+  const documentContextStr = formatDocumentContext(documentContext);
+  const protectedPatterns = buildProtectedPatterns(config.excludedTerms, documentContext.parties);
 
-  console.log(`📦 Created ${totalBatches} translation batches`);
+  const sectionsById = new Map<string, LegalSection>();
+  for (const section of parsedDocx.sections) {
+    section.context = await analyzeSectionContext(section, documentContext);
+    sectionsById.set(section.id, section);
+  }
 
-  callbacks.onProgress({
-    phase: "translating",
-    currentSegment: 0,
-    totalSegments: segments.length,
-    currentBatch: 0,
-    totalBatches,
-    message: `Translating ${segments.length} text segments...`,
-  });
+  // Signature lines (names, titles, dates as signed) are left untouched; the heading or
+  // testimonium that opens the signature section is translated like any other paragraph
+  const untouchedSegments = new Set(
+    parsedDocx.sections
+      .filter((section) => section.type === "signatures")
+      .flatMap((section) => section.segments.slice(1).filter((segment) => isSignatureLine(segment.text)))
+  );
+  if (untouchedSegments.size > 0) {
+    console.log(`✍️ Keeping ${untouchedSegments.size} signature lines untranslated`);
+  }
 
-  // Phase 3: Translate batches with controlled concurrency (original algorithm)
+  // Translation memory: reviewed exact matches are filled in, similar or unreviewed entries go to
+  // the prompt as references.
+  // Only real model output belongs in it - the pseudo provider neither reads nor writes it
+  const memory = config.useTranslationMemory && provider.id === "gemini"
+    ? await loadTranslationMemory(config.sourceLanguage, config.targetLanguage)
+    : null;
   const translations = new Map<string, string>();
-  let processedSegments = 0;
+  const references = new Map<string, TranslationMemoryMatch>();
+  const segmentsToTranslate: TextSegment[] = [];
+  let memorySegments = 0;
+  let resumedSegments = 0;
+
+  for (const segment of segments) {
+    if (untouchedSegments.has(segment)) continue;
+
+    // Finished in an earlier run of this job
+    const saved = job?.translations[segment.id];
+    if (saved !== undefined) {
+      translations.set(segment.id, saved);
+      segment.translatedText = stripRunTags(saved);
+      segment.status = "completed";
+      segment.origin = job!.origins[segment.id];
+      if (segment.origin === "memory") memorySegments++;
+      resumedSegments++;
+      continue;
+    }
 
-  for (let i = 0; i < batches.length; i += config.maxConcurrentBatches) {
-    // Check for abort
-    if (signal?.aborted) {
-      throw new DOMException("Translation cancelled", "AbortError");
+    const source = segment.taggedText ?? segment.text;
+    const exact = memory ? findExactMatch(memory, source) : undefined;
+    if (exact) {
+      translations.set(segment.id, exact.targetText);
+      segment.translatedText = stripRunTags(exact.targetText);
+      segment.status = "completed";
+      segment.origin = "memory";
+      memorySegments++;
+      continue;
     }
 
-    const batchGroup = batches.slice(i, i + config.maxConcurrentBatches);
+    const similar = memory ? findFuzzyMatch(memory, source, config.memoryFuzzyThreshold) : undefined;
+    if (similar) {
+      references.set(segment.id, similar);
+    }
+    segmentsToTranslate.push(segment);
+  }
 
-    const batchPromises = batchGroup.map(async (batch, groupIndex) => {
-      const batchIndex = i + groupIndex;
+  if (resumedSegments > 0) {
+    console.log(`⏯️ Resuming job ${job!.id}: ${resumedSegments} segments already translated`);
+  }
+  if (memory) {
+    console.log(`🧠 Translation memory: ${memorySegments} exact matches, ${references.size} similar segments`);
+  }
 
-      try {
-        batch.status = "translating";
-        const texts = batch.segments.map((s) => s.text);
+  // Repeated text is translated once and copied to every occurrence, so it reads the same everywhere
+  const { unique: uniqueSegments, copies } = groupDuplicateSegments(segmentsToTranslate);
+  const reusedSegments = segmentsToTranslate.length - uniqueSegments.length
+    + segments.filter((s) => s.origin === "reused").length;
+  if (reusedSegments > 0) {
+    console.log(`♻️ ${reusedSegments} repeated segments will reuse the translation of their first occurrence`);
+  }
 
-        const response = await translateBatchLegalText(
-          texts,
-          config,
-          documentContextStr
-        );
+  // A resumed job keeps its batches; finished ones are skipped
+  const batches = job && job.batches.length > 0
+    ? restoreBatches(job, uniqueSegments, parsedDocx.sections, config)
+    : createSectionBatches(uniqueSegments, parsedDocx.sections, config);
+  const remainingBatches = batches.filter((batch) => batch.status !== "completed");
+  const completedBatches = batches.length - remainingBatches.length;
+  const totalBatches = batches.length;
 
-        // Store translations
-        batch.segments.forEach((segment, idx) => {
-          if (response.translations[idx] !== undefined) {
-            translations.set(segment.id, response.translations[idx]);
-            segment.translatedText = response.translations[idx];
-            segment.status = "completed";
-          }
-        });
+  if (completedBatches > 0) {
+    console.log(`📦 Resuming at batch ${completedBatches + 1} of ${totalBatches}`);
+  } else {
+    console.log(`📦 Created ${totalBatches} translation batches across ${parsedDocx.sections.length} sections`);
+  }
+  if (job) {
+    await saveJobProgress(job, segments, translations, batches, privacy);
+  }
 
-        batch.status = "completed";
-        return batch.segments.length;
-      } catch (error) {
-        console.error(`Batch ${batchIndex} translation failed:`, error);
-
-        // On error, keep original text
-        batch.segments.forEach((segment) => {
-          translations.set(segment.id, segment.text);
-          segment.translatedText = segment.text;
-          segment.status = "error";
-          segment.error = error instanceof Error ? error.message : "Translation failed";
-        });
+  // Phase 3: Translate batches in a pool that keeps up to maxConcurrentBatches requests running
+  let processedSegments = segments.length
+    - remainingBatches.reduce((total, batch) => total + batch.segments.length, 0);
+  let finishedBatches = completedBatches;
 
-        batch.status = "error";
+  callbacks.onProgress({
+    phase: "translating",
+    currentSegment: completedBatches > 0 ? processedSegments : 0,
+    totalSegments: segments.length,
+    currentBatch: completedBatches,
+    totalBatches,
+    reusedSegments,
+    message: `Translating ${segments.length} text segments...`,
+  });
 
-        errors.push({
-          batchId: batch.id,
-          message: error instanceof Error ? error.message : "Batch translation failed",
-          timestamp: Date.now(),
-          recoverable: true,
-        });
+  const concurrency: ConcurrencyState = {
+    limit: config.maxConcurrentBatches,
+    max: config.maxConcurrentBatches,
+    lastRateLimitAt: 0,
+    lastReducedAt: 0,
+  };
 
-        return batch.segments.length;
+  // Cancelling aborts the requests in flight; what was translated until then is still rebuilt
+  let cancelled = false;
+  try {
+    await runBatchPool(remainingBatches, concurrency, signal, async (batch) => {
+      batch.status = "translating";
+
+      const failedSegments = await translateWithRetry(
+        batch,
+        batch.segments,
+        config,
+        {
+          provider,
+          documentContext: documentContextStr,
+          section: batch.sectionId ? sectionsById.get(batch.sectionId) : undefined,
+          protectedPatterns,
+          references,
+          privacy,
+          signal,
+          onRateLimited: () => reduceConcurrency(concurrency),
+        },
+        translations,
+        errors
+      );
+
+      batch.status = failedSegments === 0 ? "completed" : "error";
+      processedSegments += batch.segments.length;
+      finishedBatches++;
+
+      // Copy each translation to the repeats of its segment
+      for (const original of batch.segments) {
+        for (const repeat of copies.get(original) || []) {
+          translations.set(repeat.id, translations.get(original.id) ?? repeat.text);
+          repeat.translatedText = original.translatedText;
+          repeat.status = original.status;
+          repeat.error = original.error;
+          repeat.origin = original.status === "completed" ? "reused" : undefined;
+        }
       }
-    });
 
-    const results = await Promise.all(batchPromises);
-    processedSegments += results.reduce((a, b) => a + b, 0);
-
-    // Report progress
-    callbacks.onProgress({
-      phase: "translating",
-      currentSegment: processedSegments,
-      totalSegments: segments.length,
-      currentBatch: Math.min(i + config.maxConcurrentBatches, batches.length),
-      totalBatches,
-      message: `Translating batch ${Math.min(i + config.maxConcurrentBatches, batches.length)} of ${totalBatches}...`,
+      // Report progress
+      callbacks.onProgress({
+        phase: "translating",
+        currentSegment: processedSegments,
+        totalSegments: segments.length,
+        currentBatch: finishedBatches,
+        totalBatches,
+        reusedSegments,
+        message: `Translating batch ${finishedBatches} of ${totalBatches}...`,
+      });
+
+      if (job) {
+        await saveJobProgress(job, segments, translations, batches, privacy);
+      }
     });
+  } catch (error) {
+    if (!isAbortError(error)) throw error;
+    cancelled = true;
+    console.log(`⏹️ Translation cancelled after ${finishedBatches} of ${totalBatches} batches`);
   }
 
   console.log(`✅ Translated ${translations.size} segments`);
 
-  // Mark excluded segments as completed with original text
+  const pseudonymizationLog = privacy ? getPseudonymizationLog(privacy) : [];
+  if (pseudonymizationLog.length > 0) {
+    console.log(`🔒 Pseudonymised ${pseudonymizationLog.length} personal data items before sending`);
+  }
+
+  // Flag segments that don't use the approved glossary terms
+  const terminologyIssues = checkTerminology(segments, translations, config.glossary);
+  if (terminologyIssues.length > 0) {
+    console.warn(`📖 ${terminologyIssues.length} glossary terms not used as approved:`, terminologyIssues);
+  }
+
+  // Model translations that passed every check go to the translation memory, unreviewed;
+  // they are filled in as exact matches only once the user approves them
+  const modelTranslated = segments.filter((s) => s.origin === "model" && s.status === "completed");
+  let memoryReview: TranslationMemoryReview | undefined;
+  if (memory) {
+    const flagged = new Set(terminologyIssues.map((issue) => issue.segmentId));
+    memoryReview = {
+      sourceLanguage: config.sourceLanguage,
+      targetLanguage: config.targetLanguage,
+      pairs: modelTranslated
+        .filter((s) => !flagged.has(s.id))
+        .map((s) => ({ sourceText: s.taggedText ?? s.text, targetText: translations.get(s.id)! })),
+      approved: false,
+    };
+    await saveToTranslationMemory(memoryReview.pairs, config.sourceLanguage, config.targetLanguage);
+  }
+
+  // Signature lines and excluded segments keep their original text and are marked skipped;
+  // after a cancellation, the segments that were never translated stay pending
+  const notReached = new Set(cancelled ? segmentsToTranslate : []);
   allSegments.forEach((segment) => {
     if (!translations.has(segment.id)) {
       translations.set(segment.id, segment.text);
       segment.translatedText = segment.text;
-      segment.status = "completed";
+      segment.status = notReached.has(segment) ? "pending" : "skipped";
     }
   });
-
-  // Check for abort
-  if (signal?.aborted) {
-    throw new DOMException("Translation cancelled", "AbortError");
-  }
+  const skippedSegments = allSegments.filter((s) => s.status === "skipped").length;
 
   // Phase 4: Rebuild DOCX
   callbacks.onProgress({
     phase: "rebuilding",
-    currentSegment: segments.length,
+    currentSegment: cancelled ? processedSegments : segments.length,
     totalSegments: segments.length,
-    currentBatch: totalBatches,
+    currentBatch: cancelled ? finishedBatches : totalBatches,
     totalBatches,
+    reusedSegments,
     message: "Rebuilding document...",
   });
 
   let outputDataUrl: string;
   try {
-    outputDataUrl = await rebuildDocx(parsedDocx, translations);
+    outputDataUrl = config.outputFormat === "bilingual"
+      ? await buildBilingualDocx(parsedDocx, translations, {
+          targetLanguage: config.targetLanguage,
+          eastAsianFont: config.eastAsianFont,
+        })
+      : await rebuildDocx(parsedDocx, translations, {
+          trackChanges: config.outputFormat === "tracked",
+          targetLanguage: config.targetLanguage,
+          eastAsianFont: config.eastAsianFont,
+        });
     console.log("✅ Document rebuild complete");
   } catch (error) {
     console.error("Document rebuild failed:", error);
@@ -258,8 +457,9 @@ export async function runTranslationPipeline(
       success: false,
       outputFileName: "",
       totalSegments: allSegments.length,
-      successfulSegments: translations.size,
-      failedSegments: allSegments.length - translations.size,
+      successfulSegments: allSegments.filter((s) => s.status === "completed").length,
+      failedSegments: allSegments.filter((s) => s.status === "error").length,
+      skippedSegments,
       errors: [
         ...errors,
         {
@@ -268,27 +468,41 @@ export async function runTranslationPipeline(
           recoverable: false,
         },
       ],
+      memorySegments,
+      modelSegments: modelTranslated.length,
+      reusedSegments,
+      terminologyIssues,
+      pseudonymizationLog,
+      cancelled,
       processingTimeMs: Date.now() - startTime,
     };
   }
 
-  // Phase 5: Complete
+  const successfulSegments = allSegments.filter((s) => s.status === "completed").length;
+  const failedSegments = allSegments.filter((s) => s.status === "error").length;
+
+  // Phase 5: Complete, or cancelled with a partial document
   callbacks.onProgress({
-    phase: "complete",
-    currentSegment: segments.length,
+    phase: cancelled ? "cancelled" : "complete",
+    currentSegment: cancelled ? processedSegments : segments.length,
     totalSegments: segments.length,
-    currentBatch: totalBatches,
+    currentBatch: cancelled ? finishedBatches : totalBatches,
     totalBatches,
-    message: "Translation complete!",
+    reusedSegments,
+    message: cancelled
+      ? `Translation cancelled - ${successfulSegments} of ${allSegments.length} segments translated`
+      : "Translation complete!",
   });
 
-  const successfulSegments = allSegments.filter((s) => s.status === "completed").length;
-  const failedSegments = allSegments.filter((s) => s.status === "error").length;
-
   // Generate output filename
   const originalName = parsedDocx.originalFile.name;
   const langPrefix = config.targetLanguage.toUpperCase();
-  const outputFileName = originalName.replace(/\.docx$/i, `_${langPrefix}.docx`);
+  const formatSuffix =
+    config.outputFormat === "tracked" ? "_TRACKED"
+    : config.outputFormat === "bilingual" ? "_BILINGUAL"
+    : "";
+  const partialSuffix = cancelled ? "_PARTIAL" : "";
+  const outputFileName = originalName.replace(/\.docx$/i, `_${langPrefix}${formatSuffix}${partialSuffix}.docx`);
 
   return {
     success: true,
@@ -297,11 +511,401 @@ export async function runTranslationPipeline(
     totalSegments: allSegments.length,
     successfulSegments,
     failedSegments,
+    skippedSegments,
     errors,
+    memorySegments,
+    modelSegments: modelTranslated.length,
+    memoryReview,
+    reusedSegments,
+    terminologyIssues,
+    pseudonymizationLog,
+    cancelled,
     processingTimeMs: Date.now() - startTime,
   };
 }
 
+/**
+ * What a batch is translated with besides its segments
+ */
+interface BatchContext {
+  provider: TranslationProvider;
+  documentContext: string;
+  section?: LegalSection;
+  protectedPatterns: RegExp[]; // Content masked as ⟦P1⟧ tokens before sending
+  references: Map<string, TranslationMemoryMatch>; // Segment id -> similar translation memory entry
+  privacy?: PseudonymizationSession;
+  signal?: AbortSignal;
+  onRateLimited?: () => void;
+}
+
+// A batch that finishes within this time without rate limits lets the pool grow again
+const HEALTHY_BATCH_LATENCY_MS = 20000;
+
+// Rate limits within this time of a reduction count as the same burst
+const RATE_LIMIT_COOLDOWN_MS = 5000;
+
+/**
+ * Concurrency of the batch pool: limit moves between 1 and max as the API allows
+ */
+interface ConcurrencyState {
+  limit: number;
+  max: number;
+  lastRateLimitAt: number;
+  lastReducedAt: number;
+}
+
+/**
+ * Runs the batches with up to state.limit of them in flight, starting the next one as soon
+ * as one finishes. The limit is halved on rate limits (see reduceConcurrency) and raised by
+ * one after each batch that finished quickly without any. On abort no new batch is started;
+ * the ones in flight are awaited before the AbortError is thrown.
+ */
+async function runBatchPool(
+  batches: TranslationBatch[],
+  state: ConcurrencyState,
+  signal: AbortSignal | undefined,
+  translateBatch: (batch: TranslationBatch) => Promise<void>
+): Promise<void> {
+  const queue = [...batches];
+  const running = new Set<Promise<void>>();
+  let failure: unknown;
+
+  while ((queue.length > 0 && !signal?.aborted && !failure) || running.size > 0) {
+    while (queue.length > 0 && running.size < state.limit && !signal?.aborted && !failure) {
+      const batch = queue.shift()!;
+      const startedAt = Date.now();
+
+      const task: Promise<void> = translateBatch(batch)
+        .then(() => {
+          const healthy = state.lastRateLimitAt < startedAt && Date.now() - startedAt < HEALTHY_BATCH_LATENCY_MS;
+          if (healthy && state.limit < state.max) {
+            state.limit++;
+            console.log(`🚀 Raising concurrency to ${state.limit}`);
+          }
+        })
+        .catch((error) => {
+          failure = failure ?? error;
+        })
+        .finally(() => {
+          running.delete(task);
+        });
+      running.add(task);
+    }
+
+    if (running.size > 0) {
+      await Promise.race(running);
+    }
+  }
+
+  if (failure) throw failure;
+  if (signal?.aborted) {
+    throw new DOMException("Translation cancelled", "AbortError");
+  }
+}
+
+/**
+ * Halves the pool's concurrency after a rate limit, once per burst
+ */
+function reduceConcurrency(state: ConcurrencyState): void {
+  const now = Date.now();
+  state.lastRateLimitAt = now;
+  if (now - state.lastReducedAt > RATE_LIMIT_COOLDOWN_MS && state.limit > 1) {
+    state.limit = Math.max(1, Math.floor(state.limit / 2));
+    state.lastReducedAt = now;
+    console.warn(`🐢 Rate limited, reducing concurrency to ${state.limit}`);
+  }
+}
+
+/**
+ * Translates segments of a batch, retrying rate limits, server and network errors with
+ * exponential backoff. Segments whose translation loses or repeats a protected token are
+ * re-requested on their own. When a part still fails, it is split in half and each half is
+ * tried on its own, down to single segments - only those keep their source text.
+ * Every failed attempt is recorded in errors. Returns the number of segments that failed.
+ */
+async function translateWithRetry(
+  batch: TranslationBatch,
+  segments: TextSegment[],
+  config: TranslationConfig,
+  context: BatchContext,
+  translations: Map<string, string>,
+  errors: TranslationError[],
+  depth: number = 0
+): Promise<number> {
+  // Send run-tagged text where formatting has to be mapped back onto runs, with protected content masked
+  const masked = new Map(segments.map((s) => [
+    s.id,
+    maskProtectedContent(s.taggedText ?? s.text, context.protectedPatterns),
+  ]));
+
+  // Split parts get a single retry, so a full outage doesn't multiply the waiting
+  const maxRetries = depth === 0 ? config.maxRetries : Math.min(config.maxRetries, 1);
+  let lastMessage = "Translation failed";
+  let pending = segments;
+
+  for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+    try {
+      const references = new Map<number, TranslationMemoryMatch>();
+      pending.forEach((segment, idx) => {
+        const reference = context.references.get(segment.id);
+        if (reference) references.set(idx + 1, reference);
+      });
+
+      const response = await context.provider.translateBatch(
+        pending.map((s) => masked.get(s.id)!.text),
+        config,
+        context.documentContext,
+        {
+          sectionContext: context.section?.context,
+          sectionType: context.section?.type,
+          references,
+          privacy: context.privacy,
+          signal: context.signal,
+        }
+      );
+
+      // Store translations, keeping back the ones with broken protected tokens, run tags or placeholders
+      const failed: TextSegment[] = [];
+      let tokenError = "";
+      pending.forEach((segment, idx) => {
+        try {
+          const translation = unmaskProtectedContent(response.translations[idx], masked.get(segment.id)!.tokens);
+          verifyRunTags(segment.taggedText ?? segment.text, translation);
+          translations.set(segment.id, translation);
+          segment.translatedText = stripRunTags(translation);
+          segment.status = "completed";
+          segment.origin = "model";
+        } catch (error) {
+          failed.push(segment);
+          tokenError = tokenError || (error instanceof Error ? error.message : String(error));
+        }
+      });
+
+      if (failed.length === 0) return 0;
+      pending = failed;
+      throw new TranslationFormatError(`${failed.length} segment(s) with broken protected content or markup: ${tokenError}`);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+
+      const message = error instanceof Error ? error.message : "Batch translation failed";
+      lastMessage = message;
+      console.warn(`⚠️ ${batch.id} (${pending.length} segments) attempt ${attempt} failed:`, message);
+
+      if (error instanceof GeminiApiError && error.status === 429) {
+        context.onRateLimited?.();
+      }
+
+      errors.push({
+        batchId: batch.id,
+        segmentId: pending.length === 1 ? pending[0].id : undefined,
+        attempt,
+        status: error instanceof GeminiApiError ? error.status : undefined,
+        message,
+        timestamp: Date.now(),
+        recoverable: true,
+      });
+
+      if (!isRetryableError(error) || attempt > maxRetries) break;
+
+      batch.retryCount++;
+      await sleep(getBackoffDelay(error, attempt, config), context.signal);
+    }
+  }
+
+  // Split to isolate the segments that keep failing
+  if (pending.length > 1) {
+    const middle = Math.ceil(pending.length / 2);
+    const failedFirst = await translateWithRetry(
+      batch, pending.slice(0, middle), config, context, translations, errors, depth + 1
+    );
+    const failedSecond = await translateWithRetry(
+      batch, pending.slice(middle), config, context, translations, errors, depth + 1
+    );
+    return failedFirst + failedSecond;
+  }
+
+  // A single segment that still fails keeps its original text
+  const [segment] = pending;
+  console.error(`❌ Segment ${segment.id} could not be translated, keeping source text`);
+  translations.set(segment.id, segment.text);
+  segment.translatedText = segment.text;
+  segment.status = "error";
+  segment.error = lastMessage;
+  return 1;
+}
+
+/**
+ * Whether a paragraph of a signature section is part of the signature block itself:
+ * signature rules, "Name:"/"Title:"/"Date:" labels and bare names or job titles.
+ * Sentences, numbered clauses and "For and on behalf of …" lines are translated.
+ */
+function isSignatureLine(text: string): boolean {
+  const line = text.trim();
+  if (!line || line.length > 80) return false;
+  if (/_{3,}|\.{5,}/.test(line)) return true;
+  if (/^(by|name|title|position|date|place|signature|signed|witness)\s*:/i.test(line)) return true;
+  if (/^(\d|\(|for\b|article\b|section\b|clause\b)/i.test(line)) return false;
+  return line.length <= 60 && line.split(/\s+/).length <= 6 && !/[.;!?]$/.test(line);
+}
+
+/**
+ * Groups segments whose run-tagged text is the same once whitespace is normalised.
+ * Returns the first occurrence of every text and, for each first occurrence, its repeats.
+ */
+function groupDuplicateSegments(segments: TextSegment[]): {
+  unique: TextSegment[];
+  copies: Map<TextSegment, TextSegment[]>;
+} {
+  const firstByText = new Map<string, TextSegment>();
+  const copies = new Map<TextSegment, TextSegment[]>();
+  const unique: TextSegment[] = [];
+
+  for (const segment of segments) {
+    const key = (segment.taggedText ?? segment.text).replace(/\s+/g, " ").trim();
+    const first = firstByText.get(key);
+    if (first) {
+      copies.set(first, [...(copies.get(first) || []), segment]);
+    } else {
+      firstByText.set(key, segment);
+      unique.push(segment);
+    }
+  }
+
+  return { unique, copies };
+}
+
+/**
+ * Rebuilds the batches saved with a job. Segments translated in an earlier run are dropped,
+ * so an unfinished batch only sends what it still lacks; remaining segments that no saved
+ * batch holds get new batches at the end.
+ */
+function restoreBatches(
+  job: TranslationJob,
+  remaining: TextSegment[],
+  sections: LegalSection[],
+  config: TranslationConfig
+): TranslationBatch[] {
+  const remainingById = new Map(remaining.map((segment) => [segment.id, segment]));
+
+  const batches: TranslationBatch[] = job.batches.map((saved) => {
+    const segments = saved.segmentIds
+      .map((id) => remainingById.get(id))
+      .filter((segment): segment is TextSegment => segment !== undefined);
+    segments.forEach((segment) => remainingById.delete(segment.id));
+    return {
+      id: saved.id,
+      segments,
+      startIndex: segments.length > 0 ? remaining.indexOf(segments[0]) : -1,
+      totalCharacters: segments.reduce((total, segment) => total + segment.text.length, 0),
+      status: segments.length === 0 ? "completed" : "pending",
+      retryCount: 0,
+      sectionId: saved.sectionId,
+    };
+  });
+
+  const unbatched = remaining.filter((segment) => remainingById.has(segment.id));
+  for (const batch of createSectionBatches(unbatched, sections, config)) {
+    batches.push({ ...batch, id: `batch-${batches.length}` });
+  }
+  return batches;
+}
+
+/**
+ * Saves a job's completed translations, batch statuses and surrogates issued so far. Segments
+ * that failed are not saved, so a resumed job tries them again.
+ */
+async function saveJobProgress(
+  job: TranslationJob,
+  segments: TextSegment[],
+  translations: Map<string, string>,
+  batches: TranslationBatch[],
+  privacy?: PseudonymizationSession
+): Promise<void> {
+  job.segments = segments;
+  job.pseudonyms = privacy ? getPseudonymizationLog(privacy) : undefined;
+  job.translations = {};
+  job.origins = {};
+  for (const segment of segments) {
+    const translation = translations.get(segment.id);
+    if (segment.status === "completed" && segment.origin && translation !== undefined) {
+      job.translations[segment.id] = translation;
+      job.origins[segment.id] = segment.origin;
+    }
+  }
+  job.batches = batches.map((batch) => ({
+    id: batch.id,
+    sectionId: batch.sectionId,
+    segmentIds: batch.segments.map((segment) => segment.id),
+    status: batch.status,
+  }));
+  await saveTranslationJob(job);
+}
+
+/**
+ * Exponential backoff with jitter; a Retry-After from the server wins if it is longer
+ */
+function getBackoffDelay(error: unknown, attempt: number, config: TranslationConfig): number {
+  const backoff = config.retryBaseDelayMs * 2 ** (attempt - 1) + Math.random() * 250;
+  const retryAfter = error instanceof GeminiApiError ? error.retryAfterMs ?? 0 : 0;
+  return Math.max(backoff, retryAfter);
+}
+
+/**
+ * Waits for the given number of milliseconds; rejects with an AbortError as soon as the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Translation cancelled", "AbortError"));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Translation cancelled", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Groups segments into batches that stay within one legal section each.
+ * Segments outside every section (document properties) are batched last.
+ */
+export function createSectionBatches(
+  segments: TextSegment[],
+  sections: LegalSection[],
+  config: TranslationConfig
+): TranslationBatch[] {
+  const included = new Set(segments);
+  const groups = sections.map((section) => ({
+    sectionId: section.id as string | undefined,
+    segments: section.segments.filter((segment) => included.has(segment)),
+  }));
+
+  const sectioned = new Set(groups.flatMap((group) => group.segments));
+  groups.push({
+    sectionId: undefined,
+    segments: segments.filter((segment) => !sectioned.has(segment)),
+  });
+
+  const batches: TranslationBatch[] = [];
+  for (const group of groups) {
+    for (const batch of createBatches(group.segments, config)) {
+      batches.push({
+        ...batch,
+        id: `batch-${batches.length}`,
+        startIndex: segments.indexOf(batch.segments[0]),
+        sectionId: group.sectionId,
+      });
+    }
+  }
+  return batches;
+}
+
 /**
  * Groups segments into batches based on size constraints
  */
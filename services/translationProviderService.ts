@@ -0,0 +1,85 @@
+import {
+  BatchTranslationResponse,
+  DocumentPartNotes,
+  LegalDocumentContext,
+  TranslationConfig,
+  TranslationProviderId,
+} from "../types";
+import {
+  analyzeLegalDocumentContext,
+  BatchTranslationOptions,
+  summarizeDocumentPart,
+  translateBatchLegalText,
+  translateLegalText,
+} from "./geminiService";
+import { pseudoTranslationProvider } from "./pseudoTranslationService";
+import { PseudonymizationSession } from "./pseudonymizationService";
+
+/**
+ * What the pipeline needs from a translation engine. Every method rejects with an
+ * AbortError once the signal aborts.
+ */
+export interface TranslationProvider {
+  id: TranslationProviderId;
+
+  /**
+   * Document-level legal context from the whole document or a sample of it
+   */
+  analyzeDocumentContext(
+    sampleText: string,
+    sourceLanguage: string,
+    privacy?: PseudonymizationSession,
+    signal?: AbortSignal
+  ): Promise<LegalDocumentContext>;
+
+  /**
+   * Notes on one part of a long document (map step of the document context pass)
+   */
+  summarizeDocumentPart(
+    partText: string,
+    partNumber: number,
+    totalParts: number,
+    privacy?: PseudonymizationSession,
+    signal?: AbortSignal
+  ): Promise<DocumentPartNotes>;
+
+  /**
+   * Translates a batch of segments, returning one translation per input in input order.
+   * Run tags, field placeholders and ⟦…⟧ tokens must come back unchanged.
+   */
+  translateBatch(
+    texts: string[],
+    config: TranslationConfig,
+    documentContext: string,
+    options?: BatchTranslationOptions
+  ): Promise<BatchTranslationResponse>;
+
+  /**
+   * Translates a whole plain-text document in one request
+   */
+  translateText(
+    text: string,
+    targetLanguage: string,
+    excludedText?: string,
+    privacy?: PseudonymizationSession,
+    signal?: AbortSignal
+  ): Promise<string>;
+}
+
+/**
+ * The Gemini model, called through the /api/translate serverless function
+ */
+export const geminiProvider: TranslationProvider = {
+  id: "gemini",
+  analyzeDocumentContext: analyzeLegalDocumentContext,
+  summarizeDocumentPart,
+  translateBatch: translateBatchLegalText,
+  translateText: translateLegalText,
+};
+
+/**
+ * Returns the provider for an id; jobs saved before providers existed have none and use Gemini
+ */
+export function getTranslationProvider(id: TranslationProviderId = "gemini"): TranslationProvider {
+  return id === "pseudo" ? pseudoTranslationProvider : geminiProvider;
+}
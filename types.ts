@@ -1,9 +1,39 @@
+/**
+ * How pending tracked changes (w:ins / w:del) are handled:
+ * - accept: accept all revisions first, the output carries no revision marks
+ * - current: translate the current text; the pending revisions of translated paragraphs are accepted
+ * - separate: keep the revisions and translate inserted and deleted text as segments of their own
+ */
+export type TrackedChangesPolicy = 'accept' | 'current' | 'separate';
+
+/**
+ * Shape of the output document:
+ * - translated: translation replaces the source text
+ * - tracked: each translated paragraph is a tracked deletion of the source plus an insertion of the translation
+ * - bilingual: two-column table with the source on the left and the translation on the right
+ */
+export type OutputFormat = 'translated' | 'tracked' | 'bilingual';
+
+/**
+ * Engine that analyzes and translates the text:
+ * - gemini: the Gemini model, through the /api/translate function
+ * - pseudo: deterministic local pseudo-translation, for tests and demos without network access or API cost
+ */
+export type TranslationProviderId = 'gemini' | 'pseudo';
+
 export interface DocumentSettings {
   translateHeaders: boolean;
   translateFootnotes: boolean;
   preserveFormatting: boolean;
   translateComments: boolean;
+  trackedChanges: TrackedChangesPolicy;
+  outputFormat: OutputFormat;
+  eastAsianFont: string; // Font for Chinese/Japanese/Korean output, empty for the language default
   excludedText: string;
+  pseudonymize: boolean; // Replace personal data with surrogates before text leaves the browser
+  privateNames: string; // Client names to pseudonymise, one per line
+  privatePatterns: string; // Extra regular expressions to pseudonymise, one per line
+  provider: TranslationProviderId;
 }
 
 export interface UploadedDocument {
@@ -27,7 +57,10 @@ export interface TranslatedDocument {
   languageFrom: string;
   languageTo: string;
   timestamp: number;
-  status: 'processing' | 'completed' | 'error';
+  status: 'processing' | 'completed' | 'cancelled' | 'error'; // cancelled = partial translation
+  failedSegments?: number; // Segments left in the source language after all retries; a resume retries them
+  privacyLog?: PseudonymEntry[]; // What was pseudonymised; kept in the browser only
+  memoryReview?: TranslationMemoryReview; // Model translations the user can approve for the translation memory
 }
 
 export type TranslationStatus = 'idle' | 'translating' | 'completed' | 'error';
@@ -40,8 +73,21 @@ export type TranslationStatus = 'idle' | 'translating' | 'completed' | 'error';
  * Context information for a text segment
  */
 export interface SegmentContext {
-  location: 'body' | 'header' | 'footer' | 'footnote' | 'table-cell';
+  location:
+    | 'body'
+    | 'header'
+    | 'footer'
+    | 'footnote'
+    | 'endnote'
+    | 'comment'
+    | 'table-cell'
+    | 'text-box'
+    | 'shape'
+    | 'content-control'
+    | 'properties';
   styleInfo?: string;
+  noteId?: string; // w:id of the enclosing footnote/endnote/comment
+  revision?: 'inserted' | 'deleted'; // Set for revision segments (trackedChanges: 'separate')
 }
 
 /**
@@ -50,11 +96,14 @@ export interface SegmentContext {
 export interface TextSegment {
   id: string;
   text: string;
+  taggedText?: string; // Text with inline run markup (<r1>…</r1>) when runs differ in formatting
   translatedText?: string;
   xmlPath: string;
-  paragraphIndex: number;
+  locator: string; // XPath-like path to the paragraph within its XML part
+  revisionIndex?: number; // Index into the paragraph's revision wrappers for revision segments
   context: SegmentContext;
-  status: 'pending' | 'translating' | 'completed' | 'error';
+  status: 'pending' | 'translating' | 'completed' | 'skipped' | 'error'; // skipped = kept in the source language on purpose
+  origin?: 'model' | 'memory' | 'reused'; // Where the translation came from; reused = copied from an identical segment
   error?: string;
 }
 
@@ -78,6 +127,8 @@ export interface ParsedDocx {
   xmlDocuments: Map<string, Document>;
   segments: TextSegment[];
   metadata: DocumentMetadata;
+  trackedChanges: TrackedChangesPolicy;
+  preserveFormatting: boolean; // Whether tagged text splits spans on formatting
 }
 
 /**
@@ -90,6 +141,7 @@ export interface TranslationBatch {
   totalCharacters: number;
   status: 'pending' | 'translating' | 'completed' | 'error';
   retryCount: number;
+  sectionId?: string; // Legal section the batch belongs to; batches never cross sections
 }
 
 /**
@@ -105,7 +157,120 @@ export interface TranslationConfig {
   translateHeaders: boolean;
   translateFooters: boolean;
   translateFootnotes: boolean;
+  translateComments: boolean;
+  outputFormat: OutputFormat;
+  eastAsianFont?: string;
+  glossary: GlossaryEntry[]; // Approved terminology for this language pair
+  pseudonymization?: PseudonymizationConfig; // Set to replace personal data before sending
+  provider?: TranslationProviderId; // Defaults to gemini
   modelTemperature: number;
+  useTranslationMemory: boolean;
+  memoryFuzzyThreshold: number; // Minimum similarity (0-1) for a translation memory reference
+  maxRetries: number; // Retries per batch before it is split in half
+  retryBaseDelayMs: number; // First backoff delay, doubled on every retry
+}
+
+/**
+ * Options for writing the translated DOCX
+ */
+export interface RebuildOptions {
+  trackChanges?: boolean; // Write translations as w:del + w:ins revisions
+  revisionAuthor?: string;
+  revisionDate?: string; // ISO 8601, defaults to now
+  targetLanguage?: string; // Language code; tags runs, styles and sections for the target language
+  eastAsianFont?: string; // Overrides the default East Asian font (SimSun, MS Mincho, Batang)
+}
+
+/**
+ * Firm glossary entry: the approved translation of a source term for a language pair
+ */
+export interface GlossaryEntry {
+  id: string;
+  sourceLanguage: string; // Language code, or 'auto' for any source language
+  targetLanguage: string;
+  sourceTerm: string;
+  targetTerm: string;
+}
+
+/**
+ * A translated segment whose source contains a glossary term but whose translation
+ * doesn't use the approved target term
+ */
+export interface TerminologyIssue {
+  segmentId: string;
+  sourceTerm: string;
+  targetTerm: string;
+}
+
+/**
+ * What to pseudonymise besides the built-in patterns (JMBG, PIB, matični broj, IBAN,
+ * bank accounts, phone numbers, email addresses)
+ */
+export interface PseudonymizationConfig {
+  names: string[];
+  customPatterns: string[]; // Regular expression sources
+}
+
+/**
+ * One pseudonymised item: the surrogate sent to the model and the data it stands for
+ */
+export interface PseudonymEntry {
+  surrogate: string; // e.g. ⟦JMBG_1⟧
+  original: string;
+  category: string;
+  occurrences: number; // Replacements across all requests for the document
+}
+
+/**
+ * Approved translation of a segment, stored in the translation memory
+ */
+export interface TranslationMemoryEntry {
+  id: string; // sourceLanguage|targetLanguage|normalized source text
+  sourceLanguage: string;
+  targetLanguage: string;
+  sourceText: string; // Run-tagged source, as sent to the model
+  targetText: string; // Run-tagged translation
+  reviewed: boolean; // Approved by a reviewer; only reviewed entries are filled in as exact matches
+  updatedAt: number;
+}
+
+/**
+ * Model translations of one document, stored unreviewed until the user approves them
+ */
+export interface TranslationMemoryReview {
+  sourceLanguage: string;
+  targetLanguage: string;
+  pairs: Array<{ sourceText: string; targetText: string }>; // Run-tagged source and translation
+  approved: boolean;
+}
+
+/**
+ * A translation memory entry similar to a segment, offered to the model as a reference
+ */
+export interface TranslationMemoryMatch {
+  sourceText: string;
+  targetText: string;
+  similarity: number; // 0-1
+}
+
+/**
+ * A translation job persisted in IndexedDB, so an interrupted run can resume after a reload
+ * without translating its finished segments again
+ */
+export interface TranslationJob {
+  id: string;
+  fileName: string;
+  file: Blob; // The uploaded DOCX, re-parsed on resume
+  settings: DocumentSettings;
+  config: TranslationConfig;
+  documentContext?: LegalDocumentContext; // Set once analyzed, so resuming skips the analysis
+  segments: TextSegment[]; // Parsed segments with their latest status
+  translations: Record<string, string>; // Segment id -> completed (run-tagged) translation
+  origins: Record<string, NonNullable<TextSegment['origin']>>;
+  batches: Array<{ id: string; sectionId?: string; segmentIds: string[]; status: TranslationBatch['status'] }>;
+  pseudonyms?: PseudonymEntry[]; // Surrogates issued so far, so a resumed job keeps using them
+  createdAt: number;
+  updatedAt: number;
 }
 
 /**
@@ -130,6 +295,7 @@ export interface TranslationProgress {
   totalSegments: number;
   currentBatch: number;
   totalBatches: number;
+  reusedSegments: number; // Repeated segments that take the translation of their first occurrence
   message: string;
 }
 
@@ -139,6 +305,8 @@ export interface TranslationProgress {
 export interface TranslationError {
   segmentId?: string;
   batchId?: string;
+  attempt?: number; // 1-based attempt number for translation retries
+  status?: number; // HTTP status of the failed request, if any
   message: string;
   timestamp: number;
   recoverable: boolean;
@@ -162,7 +330,15 @@ export interface TranslationResult {
   totalSegments: number;
   successfulSegments: number;
   failedSegments: number;
+  skippedSegments: number; // Kept in the source language: signature lines and parts excluded by settings
   errors: TranslationError[];
+  memorySegments: number; // Filled from translation memory (exact matches)
+  modelSegments: number; // Translated by the model
+  memoryReview?: TranslationMemoryReview; // What was saved to the translation memory, awaiting approval
+  reusedSegments: number; // Copied from an identical segment in the same document
+  terminologyIssues: TerminologyIssue[];
+  pseudonymizationLog: PseudonymEntry[];
+  cancelled: boolean; // Stopped by the user; the output holds the segments translated until then
   processingTimeMs: number;
 }
 
@@ -219,9 +395,20 @@ export interface LegalDocumentContext {
   jurisdiction?: string;       // Governing law/jurisdiction if detected
   formalityLevel: 'high' | 'medium' | 'standard';
   specialTerminology: string[]; // Key legal terms identified
+  definedTerms: string[];      // Terms the document defines, e.g. "Services", "Effective Date"
   summary: string;             // Brief document summary
 }
 
+/**
+ * Notes taken from one part of a long document, merged when building its LegalDocumentContext
+ */
+export interface DocumentPartNotes {
+  parties: string[];
+  definedTerms: string[];
+  jurisdiction?: string;
+  summary: string;
+}
+
 /**
  * Extended parsed document with legal structure
  */